@@ -4,11 +4,7 @@
  * TMDB MCP Server
  * Provides access to The Movie Database (TMDB) API through Model Context Protocol
  *
- * Available tools:
- * - search_movies: Search for movies by title
- * - get_movie_details: Get detailed information about a specific movie
- * - search_tv_shows: Search for TV shows by name
- * - get_tv_details: Get detailed information about a specific TV show
+ * Tools are declared in src/tools/ and registered through src/tools/index.ts
  *
  * Supports two transport modes:
  * - stdio: For local Claude Desktop integration (default)
@@ -21,76 +17,118 @@ import express from "express";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
-import { CallToolRequestSchema, ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import {
+    CallToolRequestSchema,
+    GetPromptRequestSchema,
+    ListPromptsRequestSchema,
+    ListResourcesRequestSchema,
+    ListResourceTemplatesRequestSchema,
+    ListToolsRequestSchema,
+    ReadResourceRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
 
 // Import TMDB client
-import { TMDBClient } from "./utils/tmdb-client.js";
-
-// Import movie tools
-import {
-    searchMoviesTool,
-    getMovieDetailsTool,
-    discoverMoviesTool,
-    getRecommendationsTool,
-    getTrendingTool,
-    getMovieCreditsTool,
-    handleSearchMovies,
-    handleGetMovieDetails,
-    handleDiscoverMovies,
-    handleGetRecommendations,
-    handleGetTrending,
-    handleGetMovieCredits,
-    SearchMoviesSchema,
-    GetMovieDetailsSchema,
-    DiscoverMoviesSchema,
-    GetRecommendationsSchema,
-    GetTrendingSchema,
-    GetMovieCreditsSchema,
-} from "./tools/movies.js";
-
-// Import TV show tools
+import { DEFAULT_BASE_URL, TMDBClient } from "./utils/tmdb-client.js";
+import { createHttpFetch, HTTP_MODES, type HttpMode } from "./utils/http.js";
 import {
-    searchTVShowsTool,
-    getTVShowDetailsTool,
-    discoverTVShowsTool,
-    getTVRecommendationsTool,
-    getTVCreditsTool,
-    handleSearchTVShows,
-    handleGetTVShowDetails,
-    handleDiscoverTVShows,
-    handleGetTVRecommendations,
-    handleGetTVCredits,
-    SearchTVShowsSchema,
-    GetTVShowDetailsSchema,
-    DiscoverTVShowsSchema,
-    GetTVRecommendationsSchema,
-    GetTVCreditsSchema,
-} from "./tools/tv.js";
-
-// Import people tools
+    IMAGE_SIZES,
+    setImageConfiguration,
+    setPreferredImageSize,
+    type ImageSize,
+} from "./utils/images.js";
+
+// Import tool registry
+import { toolRegistry } from "./tools/index.js";
 import {
-    searchPeopleTool,
-    getPersonDetailsTool,
-    handleSearchPeople,
-    handleGetPersonDetails,
-    SearchPeopleSchema,
-    GetPersonDetailsSchema,
-} from "./tools/people.js";
+    OUTPUT_FORMATS,
+    setDefaultOutputFormat,
+    type OutputFormat,
+} from "./utils/output-format.js";
+
+// Import resources
+import { listResources, listResourceTemplates, readResource } from "./resources/index.js";
+
+// Import prompts
+import { getPrompt, listPrompts } from "./prompts/index.js";
 
 // Load environment variables
 config();
 
-// Initialize TMDB client
-const tmdbToken = process.env.TMDB_ACCESS_TOKEN;
+// HTTP mode: live (default), record responses to fixtures, or replay them offline
+const httpMode = (process.env.TMDB_HTTP_MODE || "live") as HttpMode;
+if (!HTTP_MODES.includes(httpMode)) {
+    console.error(`Error: TMDB_HTTP_MODE must be one of: ${HTTP_MODES.join(", ")}`);
+    process.exit(1);
+}
+const fixturesDir = process.env.TMDB_FIXTURES_DIR || "fixtures";
+
+// Initialize TMDB client (replay mode never contacts TMDB, so no token is needed)
+const tmdbToken = process.env.TMDB_ACCESS_TOKEN || (httpMode === "replay" ? "replay" : undefined);
 if (!tmdbToken) {
     console.error("Error: TMDB_ACCESS_TOKEN environment variable is required");
     process.exit(1);
 }
 
-const tmdbClient = new TMDBClient(tmdbToken);
+/**
+ * Read an optional integer environment variable, exiting if it is invalid
+ */
+function readIntegerEnv(name: string, min: number): number | undefined {
+    const raw = process.env[name];
+    if (!raw) return undefined;
+
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < min) {
+        console.error(`Error: ${name} must be an integer >= ${min}`);
+        process.exit(1);
+    }
+    return value;
+}
+
+// Default language and region for every request; tools accept per-call overrides
+const language = process.env.TMDB_LANGUAGE || undefined;
+if (language && !/^[a-z]{2}(-[A-Z]{2})?$/.test(language)) {
+    console.error(
+        "Error: TMDB_LANGUAGE must be an ISO 639-1 code, optionally with a region (e.g. de or pt-BR)"
+    );
+    process.exit(1);
+}
+const region = process.env.TMDB_REGION?.toUpperCase() || undefined;
+if (region && !/^[A-Z]{2}$/.test(region)) {
+    console.error("Error: TMDB_REGION must be a two-letter ISO 3166-1 code (e.g. GB)");
+    process.exit(1);
+}
+
+const baseURL = process.env.TMDB_BASE_URL || DEFAULT_BASE_URL;
+
+const tmdbClient = new TMDBClient(tmdbToken, {
+    baseURL,
+    fetch: createHttpFetch(httpMode, fixturesDir, baseURL),
+    // Set TMDB_CACHE_SIZE=0 to disable response caching
+    cacheSize: readIntegerEnv("TMDB_CACHE_SIZE", 0),
+    maxAttempts: readIntegerEnv("TMDB_MAX_ATTEMPTS", 1),
+    rateLimit: readIntegerEnv("TMDB_RATE_LIMIT", 1),
+    language,
+    region,
+});
+
+// Preferred image size for URLs in tool results
+const imageSize = (process.env.TMDB_IMAGE_SIZE || "medium") as ImageSize;
+if (!IMAGE_SIZES.includes(imageSize)) {
+    console.error(`Error: TMDB_IMAGE_SIZE must be one of: ${IMAGE_SIZES.join(", ")}`);
+    process.exit(1);
+}
+setPreferredImageSize(imageSize);
+
+// Default text format for tool results; tools accept a per-call format
+const outputFormat = (process.env.TMDB_OUTPUT_FORMAT || "json") as OutputFormat;
+if (!OUTPUT_FORMATS.includes(outputFormat)) {
+    console.error(`Error: TMDB_OUTPUT_FORMAT must be one of: ${OUTPUT_FORMATS.join(", ")}`);
+    process.exit(1);
+}
+setDefaultOutputFormat(outputFormat);
 
 /**
- * Create MCP server with tools capability
+ * Create MCP server with tools, resources and prompts capabilities
  */
 const server = new Server(
     {
@@ -100,215 +138,42 @@ const server = new Server(
     {
         capabilities: {
             tools: {},
+            resources: {},
+            prompts: {},
         },
     }
 );
 
 /**
  * Handler for listing available tools
- * Returns all 13 TMDB tools
+ * Returns every tool in the registry
  */
 server.setRequestHandler(ListToolsRequestSchema, async () => {
     return {
-        tools: [
-            searchMoviesTool,
-            getMovieDetailsTool,
-            discoverMoviesTool,
-            getRecommendationsTool,
-            getTrendingTool,
-            getMovieCreditsTool,
-            searchTVShowsTool,
-            getTVShowDetailsTool,
-            discoverTVShowsTool,
-            getTVRecommendationsTool,
-            getTVCreditsTool,
-            searchPeopleTool,
-            getPersonDetailsTool,
-        ],
+        tools: toolRegistry.list(),
     };
 });
 
 /**
  * Handler for tool execution
- * Routes tool calls to appropriate handlers
+ * Validates arguments and routes tool calls through the registry, returning each
+ * result as structuredContent matching the tool's outputSchema
  */
 server.setRequestHandler(CallToolRequestSchema, async (request) => {
     try {
         const { name, arguments: args } = request.params;
-
-        switch (name) {
-            case "search_movies": {
-                const validatedArgs = SearchMoviesSchema.parse(args);
-                const result = await handleSearchMovies(validatedArgs, tmdbClient);
-                return {
-                    content: [
-                        {
-                            type: "text",
-                            text: result,
-                        },
-                    ],
-                };
-            }
-
-            case "get_movie_details": {
-                const validatedArgs = GetMovieDetailsSchema.parse(args);
-                const result = await handleGetMovieDetails(validatedArgs, tmdbClient);
-                return {
-                    content: [
-                        {
-                            type: "text",
-                            text: result,
-                        },
-                    ],
-                };
-            }
-
-            case "discover_movies": {
-                const validatedArgs = DiscoverMoviesSchema.parse(args);
-                const result = await handleDiscoverMovies(validatedArgs, tmdbClient);
-                return {
-                    content: [
-                        {
-                            type: "text",
-                            text: result,
-                        },
-                    ],
-                };
-            }
-
-            case "get_recommendations": {
-                const validatedArgs = GetRecommendationsSchema.parse(args);
-                const result = await handleGetRecommendations(validatedArgs, tmdbClient);
-                return {
-                    content: [
-                        {
-                            type: "text",
-                            text: result,
-                        },
-                    ],
-                };
-            }
-
-            case "search_tv_shows": {
-                const validatedArgs = SearchTVShowsSchema.parse(args);
-                const result = await handleSearchTVShows(validatedArgs, tmdbClient);
-                return {
-                    content: [
-                        {
-                            type: "text",
-                            text: result,
-                        },
-                    ],
-                };
-            }
-
-            case "get_tv_details": {
-                const validatedArgs = GetTVShowDetailsSchema.parse(args);
-                const result = await handleGetTVShowDetails(validatedArgs, tmdbClient);
-                return {
-                    content: [
-                        {
-                            type: "text",
-                            text: result,
-                        },
-                    ],
-                };
-            }
-
-            case "get_trending": {
-                const validatedArgs = GetTrendingSchema.parse(args);
-                const result = await handleGetTrending(validatedArgs, tmdbClient);
-                return {
-                    content: [
-                        {
-                            type: "text",
-                            text: result,
-                        },
-                    ],
-                };
-            }
-
-            case "get_movie_credits": {
-                const validatedArgs = GetMovieCreditsSchema.parse(args);
-                const result = await handleGetMovieCredits(validatedArgs, tmdbClient);
-                return {
-                    content: [
-                        {
-                            type: "text",
-                            text: result,
-                        },
-                    ],
-                };
-            }
-
-            case "search_people": {
-                const validatedArgs = SearchPeopleSchema.parse(args);
-                const result = await handleSearchPeople(validatedArgs, tmdbClient);
-                return {
-                    content: [
-                        {
-                            type: "text",
-                            text: result,
-                        },
-                    ],
-                };
-            }
-
-            case "get_person_details": {
-                const validatedArgs = GetPersonDetailsSchema.parse(args);
-                const result = await handleGetPersonDetails(validatedArgs, tmdbClient);
-                return {
-                    content: [
-                        {
-                            type: "text",
-                            text: result,
-                        },
-                    ],
-                };
-            }
-
-            case "discover_tv_shows": {
-                const validatedArgs = DiscoverTVShowsSchema.parse(args);
-                const result = await handleDiscoverTVShows(validatedArgs, tmdbClient);
-                return {
-                    content: [
-                        {
-                            type: "text",
-                            text: result,
-                        },
-                    ],
-                };
-            }
-
-            case "get_tv_recommendations": {
-                const validatedArgs = GetTVRecommendationsSchema.parse(args);
-                const result = await handleGetTVRecommendations(validatedArgs, tmdbClient);
-                return {
-                    content: [
-                        {
-                            type: "text",
-                            text: result,
-                        },
-                    ],
-                };
-            }
-
-            case "get_tv_credits": {
-                const validatedArgs = GetTVCreditsSchema.parse(args);
-                const result = await handleGetTVCredits(validatedArgs, tmdbClient);
-                return {
-                    content: [
-                        {
-                            type: "text",
-                            text: result,
-                        },
-                    ],
-                };
-            }
-
-            default:
-                throw new Error(`Unknown tool: ${name}`);
-        }
+        const { text, structuredContent } = await toolRegistry.call(name, args, tmdbClient);
+
+        // Text content renders structuredContent in the requested format
+        return {
+            content: [
+                {
+                    type: "text",
+                    text,
+                },
+            ],
+            structuredContent,
+        };
     } catch (error) {
         // Handle Zod validation errors and API errors
         if (error instanceof Error) {
@@ -326,6 +191,48 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     }
 });
 
+/**
+ * Handler for listing resources
+ * Returns this week's trending titles and people
+ */
+server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return {
+        resources: await listResources(tmdbClient),
+    };
+});
+
+/**
+ * Handler for listing resource URI templates
+ */
+server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return {
+        resourceTemplates: listResourceTemplates(),
+    };
+});
+
+/**
+ * Handler for reading a resource by URI
+ */
+server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return readResource(request.params.uri, tmdbClient);
+});
+
+/**
+ * Handler for listing prompt templates
+ */
+server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return {
+        prompts: listPrompts(),
+    };
+});
+
+/**
+ * Handler for rendering a prompt template
+ */
+server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    return getPrompt(request.params.name, request.params.arguments);
+});
+
 /**
  * Start server with stdio transport
  * Used for local Claude Desktop integration
@@ -355,6 +262,7 @@ async function startHttpServer() {
             server: "tmdb-mcp-server",
             version: "0.1.0",
             transport: "streamable-http",
+            cache: tmdbClient.getCacheStats(),
         });
     });
 
@@ -412,9 +320,21 @@ async function main() {
     console.error("TMDB MCP Server");
     console.error("=".repeat(50));
     console.error(`Transport mode: ${transportMode}`);
+    console.error(`TMDB HTTP mode: ${httpMode}`);
     console.error(`Node environment: ${process.env.NODE_ENV || "production"}`);
     console.error("=".repeat(50));
 
+    // Load image base URL and sizes in the background; built-in defaults apply until then
+    tmdbClient
+        .getConfiguration()
+        .then((configuration) => setImageConfiguration(configuration.images))
+        .catch((error) =>
+            console.error(
+                "Warning: could not load TMDB image configuration, using defaults:",
+                error instanceof Error ? error.message : error
+            )
+        );
+
     if (transportMode === "http") {
         await startHttpServer();
     } else {
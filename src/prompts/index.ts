@@ -0,0 +1,176 @@
+/**
+ * MCP prompts for common movie-night and research workflows
+ * Each prompt is a parameterized template that tells the assistant which tools to chain
+ *
+ * Available prompts:
+ * - plan_movie_night: Pick a movie for a group with mixed tastes
+ * - summarize_career: Summarize a director's or actor's career
+ * - binge_next: Suggest the next show to binge after one the user liked
+ * - similar_movies: Find movies like a given title, explaining why each fits
+ */
+
+import {
+    ErrorCode,
+    McpError,
+    type GetPromptResult,
+    type Prompt,
+    type PromptArgument,
+} from "@modelcontextprotocol/sdk/types.js";
+
+interface PromptDefinition extends Prompt {
+    arguments: PromptArgument[];
+    build(args: Record<string, string>): string;
+}
+
+const promptDefinitions: PromptDefinition[] = [
+    {
+        name: "plan_movie_night",
+        title: "Plan a movie night",
+        description: "Pick a few movies that suit a group's combined tastes",
+        arguments: [
+            {
+                name: "group_size",
+                description: "Number of people watching",
+                required: true,
+            },
+            {
+                name: "tastes",
+                description:
+                    "What the group likes, e.g. 'one loves horror, two prefer comedies, everyone liked Knives Out'",
+                required: true,
+            },
+            {
+                name: "constraints",
+                description:
+                    "Optional limits, e.g. 'under 2 hours, nothing before 2000, no subtitles'",
+                required: false,
+            },
+        ],
+        build: ({ group_size, tastes, constraints }) =>
+            [
+                `Plan a movie night for ${group_size} people.`,
+                `Their tastes: ${tastes}.`,
+                ...(constraints ? [`Constraints: ${constraints}.`] : []),
+                "",
+                "Steps:",
+                "1. For any specific titles mentioned, use search_movies to find their IDs, then get_recommendations on each.",
+                "2. Use discover_movies with genres, years and min_rating/min_vote_count that fit the overlap in tastes.",
+                "3. Check your top candidates with get_movie_details (runtime, genres, rating) against the constraints.",
+                "4. Recommend 3 movies, best fit first. For each, say who in the group it suits and why.",
+            ].join("\n"),
+    },
+    {
+        name: "summarize_career",
+        title: "Summarize a career",
+        description: "Summarize the career of a director, actor or other film professional",
+        arguments: [
+            {
+                name: "person_name",
+                description: "Name of the person, e.g. 'Denis Villeneuve'",
+                required: true,
+            },
+        ],
+        build: ({ person_name }) =>
+            [
+                `Summarize the career of ${person_name}.`,
+                "",
+                "Steps:",
+                `1. Use search_people to find ${person_name} and note their ID and known_for titles.`,
+                "2. Use get_person_details for their biography, birth date and place, and department.",
+                "3. Use get_person_credits with their main department and sort_by date.asc for their full filmography in order.",
+                "4. Write a short overview: how they started, defining works in chronological order, recurring themes or collaborators, and where their career stands now.",
+            ].join("\n"),
+    },
+    {
+        name: "binge_next",
+        title: "What to binge next",
+        description: "Suggest the next TV show to binge after one the user enjoyed",
+        arguments: [
+            {
+                name: "show_name",
+                description: "A show the user just finished and liked",
+                required: true,
+            },
+            {
+                name: "mood",
+                description:
+                    "Optional mood or preference, e.g. 'something lighter' or 'short seasons'",
+                required: false,
+            },
+        ],
+        build: ({ show_name, mood }) =>
+            [
+                `I just finished ${show_name} and loved it. What should I binge next?`,
+                ...(mood ? [`I'm in the mood for: ${mood}.`] : []),
+                "",
+                "Steps:",
+                `1. Use search_tv_shows to find ${show_name} and get its ID.`,
+                "2. Use get_tv_details on it to understand its genres, tone and format.",
+                "3. Use get_tv_recommendations for similar shows, and discover_tv_shows with matching genres if you need more options.",
+                "4. Check the best candidates with get_tv_details (seasons, episode runtime, status).",
+                "5. Suggest 3 shows, explaining what each shares with the original and how much of a commitment it is.",
+            ].join("\n"),
+    },
+    {
+        name: "similar_movies",
+        title: "Movies like this",
+        description: "Find movies similar to a given title and explain why each fits",
+        arguments: [
+            {
+                name: "movie_title",
+                description: "The movie to find similar titles for",
+                required: true,
+            },
+        ],
+        build: ({ movie_title }) =>
+            [
+                `Find movies similar to ${movie_title}.`,
+                "",
+                "Steps:",
+                `1. Use search_movies to find ${movie_title} and get its ID.`,
+                "2. Use get_movie_details and get_movie_credits to see its genres, director and lead cast.",
+                "3. Use get_recommendations on it for candidate titles.",
+                "4. Recommend 5 movies. For each, give the year, rating and one sentence on what it shares with the original (tone, director, cast or theme).",
+            ].join("\n"),
+    },
+];
+
+/**
+ * List all prompts in MCP format
+ */
+export function listPrompts(): Prompt[] {
+    return promptDefinitions.map(({ build: _build, ...prompt }) => prompt);
+}
+
+/**
+ * Render a prompt with the given arguments
+ */
+export function getPrompt(name: string, args: Record<string, string> = {}): GetPromptResult {
+    const prompt = promptDefinitions.find((definition) => definition.name === name);
+    if (!prompt) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    const missing = prompt.arguments
+        .filter((argument) => argument.required && !args[argument.name]?.trim())
+        .map((argument) => argument.name);
+    if (missing.length > 0) {
+        throw new McpError(
+            ErrorCode.InvalidParams,
+            `Missing required arguments for ${name}: ${missing.join(", ")}`
+        );
+    }
+
+    return {
+        description: prompt.description,
+        messages: [
+            {
+                role: "user",
+                content: {
+                    type: "text",
+                    text: prompt.build(args),
+                },
+            },
+        ],
+    };
+}
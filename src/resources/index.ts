@@ -0,0 +1,154 @@
+/**
+ * MCP resources for movies, TV shows, seasons and people
+ * Lets clients attach a title to context without going through a tool call
+ *
+ * URI templates:
+ * - tmdb://movie/{id}
+ * - tmdb://tv/{id}
+ * - tmdb://tv/{id}/season/{n}
+ * - tmdb://person/{id}
+ *
+ * Plus tmdb://server/cache with response cache statistics, for clients on stdio that
+ * can't reach the HTTP /health endpoint
+ */
+
+import {
+    ErrorCode,
+    McpError,
+    type ReadResourceResult,
+    type Resource,
+    type ResourceTemplate,
+} from "@modelcontextprotocol/sdk/types.js";
+import { TMDBClient } from "../utils/tmdb-client.js";
+import { handleGetMovieDetails } from "../tools/movies.js";
+import { handleGetTVSeason, handleGetTVShowDetails } from "../tools/tv.js";
+import { handleGetPersonDetails } from "../tools/people.js";
+import type { TMDBTrendingItem } from "../types/tmdb.js";
+
+interface ResourceTemplateDefinition extends ResourceTemplate {
+    pattern: RegExp;
+    read(ids: number[], tmdbClient: TMDBClient): Promise<object>;
+}
+
+const JSON_MIME_TYPE = "application/json";
+
+const cacheStatsResource: Resource = {
+    uri: "tmdb://server/cache",
+    name: "cache_stats",
+    title: "Response Cache",
+    description: "Size and hit/miss statistics of the server's TMDB response cache",
+    mimeType: JSON_MIME_TYPE,
+};
+
+const resourceTemplates: ResourceTemplateDefinition[] = [
+    {
+        uriTemplate: "tmdb://movie/{id}",
+        name: "movie",
+        title: "Movie",
+        description: "Details for a movie by TMDB ID",
+        mimeType: JSON_MIME_TYPE,
+        pattern: /^tmdb:\/\/movie\/(\d+)$/,
+        read: ([movieId], tmdbClient) =>
+            handleGetMovieDetails({ movie_id: movieId, include: [] }, tmdbClient),
+    },
+    {
+        uriTemplate: "tmdb://tv/{id}",
+        name: "tv_show",
+        title: "TV Show",
+        description: "Details for a TV show by TMDB ID",
+        mimeType: JSON_MIME_TYPE,
+        pattern: /^tmdb:\/\/tv\/(\d+)$/,
+        read: ([tvId], tmdbClient) =>
+            handleGetTVShowDetails({ tv_id: tvId, include: [] }, tmdbClient),
+    },
+    {
+        uriTemplate: "tmdb://tv/{id}/season/{n}",
+        name: "tv_season",
+        title: "TV Season",
+        description: "Episode list for a season of a TV show",
+        mimeType: JSON_MIME_TYPE,
+        pattern: /^tmdb:\/\/tv\/(\d+)\/season\/(\d+)$/,
+        read: ([tvId, seasonNumber], tmdbClient) =>
+            handleGetTVSeason({ tv_id: tvId, season_number: seasonNumber }, tmdbClient),
+    },
+    {
+        uriTemplate: "tmdb://person/{id}",
+        name: "person",
+        title: "Person",
+        description: "Biography and details for a person by TMDB ID",
+        mimeType: JSON_MIME_TYPE,
+        pattern: /^tmdb:\/\/person\/(\d+)$/,
+        read: ([personId], tmdbClient) =>
+            handleGetPersonDetails({ person_id: personId, include: [] }, tmdbClient),
+    },
+];
+
+/**
+ * List resource templates in MCP format
+ */
+export function listResourceTemplates(): ResourceTemplate[] {
+    return resourceTemplates.map(({ pattern: _pattern, read: _read, ...template }) => template);
+}
+
+/**
+ * List the cache statistics and this week's trending movies, TV shows and people as
+ * concrete resources
+ */
+export async function listResources(tmdbClient: TMDBClient): Promise<Resource[]> {
+    const trending = await tmdbClient.getTrending("all", "week");
+
+    const trendingResources = trending.results.map((item: TMDBTrendingItem): Resource => {
+        const name = item.media_type === "movie" ? item.title : item.name;
+        const date =
+            item.media_type === "movie"
+                ? item.release_date
+                : item.media_type === "tv"
+                  ? item.first_air_date
+                  : "";
+        const year = date.slice(0, 4);
+
+        return {
+            uri: `tmdb://${item.media_type}/${item.id}`,
+            name: name || `${item.media_type} ${item.id}`,
+            description: `Trending ${item.media_type === "tv" ? "TV show" : item.media_type}${year ? ` (${year})` : ""}`,
+            mimeType: JSON_MIME_TYPE,
+        };
+    });
+
+    return [cacheStatsResource, ...trendingResources];
+}
+
+/**
+ * Read a resource by URI
+ */
+export async function readResource(
+    uri: string,
+    tmdbClient: TMDBClient
+): Promise<ReadResourceResult> {
+    if (uri === cacheStatsResource.uri) {
+        return {
+            contents: [
+                {
+                    uri,
+                    mimeType: JSON_MIME_TYPE,
+                    text: JSON.stringify(tmdbClient.getCacheStats(), null, 2),
+                },
+            ],
+        };
+    }
+
+    for (const template of resourceTemplates) {
+        const match = template.pattern.exec(uri);
+        if (match) {
+            const ids = match.slice(1).map(Number);
+            const result = await template.read(ids, tmdbClient);
+            return {
+                contents: [
+                    { uri, mimeType: JSON_MIME_TYPE, text: JSON.stringify(result, null, 2) },
+                ],
+            };
+        }
+    }
+
+    throw new McpError(ErrorCode.InvalidParams, `Unknown resource URI: ${uri}`);
+}
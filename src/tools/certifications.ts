@@ -0,0 +1,213 @@
+/**
+ * Age rating (certification) and release date MCP tools
+ */
+
+import { z } from "zod";
+import { TMDBClient } from "../utils/tmdb-client.js";
+import { defineTool, type ToolDefinition } from "./registry.js";
+import type {
+    TMDBCertification,
+    TMDBContentRating,
+    TMDBReleaseDate,
+    TMDBReleaseDatesResponse,
+} from "../types/tmdb.js";
+import {
+    CertificationListResultSchema,
+    ReleaseInfoResultSchema,
+    type CertificationListResult,
+    type ContentRating,
+    type CountryReleases,
+    type ReleaseInfoResult,
+} from "../types/results.js";
+
+/**
+ * Movie release types, indexed by TMDB's numeric type minus one
+ */
+const RELEASE_TYPES = [
+    "premiere",
+    "theatrical_limited",
+    "theatrical",
+    "digital",
+    "physical",
+    "tv",
+] as const;
+
+type ReleaseType = (typeof RELEASE_TYPES)[number];
+
+/**
+ * Optional country filter shared by the certification tools
+ */
+const CountrySchema = z
+    .string()
+    .regex(/^[A-Za-z]{2}$/, "Region must be a two-letter ISO 3166-1 code")
+    .toUpperCase()
+    .optional()
+    .describe("ISO 3166-1 country code, e.g. 'US', 'GB', 'DE' (default: all countries)");
+
+/**
+ * Zod schema for get_release_info tool
+ */
+export const GetReleaseInfoSchema = z.object({
+    media_type: z.enum(["movie", "tv"]).describe("Type of content: movie or tv"),
+    id: z.number().int().positive().describe("TMDB movie or TV show ID"),
+    region: CountrySchema,
+    release_types: z
+        .array(z.enum(RELEASE_TYPES))
+        .optional()
+        .describe(
+            "Movies only: only return these release types, e.g. ['theatrical', 'digital'] (default: all)"
+        ),
+});
+
+/**
+ * Zod schema for list_certifications tool
+ */
+export const ListCertificationsSchema = z.object({
+    media_type: z
+        .enum(["movie", "tv"])
+        .optional()
+        .default("movie")
+        .describe("Rating system for movies or TV (default: movie)"),
+    region: CountrySchema,
+});
+
+/**
+ * Tool definition for get_release_info
+ */
+export const getReleaseInfoTool = defineTool({
+    name: "get_release_info",
+    description:
+        "Get age ratings and release dates per country. For movies, returns release dates by type (premiere, theatrical, digital, physical, TV) with the certification for each, e.g. PG-13 in the US or 12A in the UK. For TV shows, returns the content rating per country. Use list_certifications to explain what a rating means.",
+    schema: GetReleaseInfoSchema,
+    outputSchema: ReleaseInfoResultSchema,
+    handler: handleGetReleaseInfo,
+});
+
+/**
+ * Tool definition for list_certifications
+ */
+export const listCertificationsTool = defineTool({
+    name: "list_certifications",
+    description:
+        "List the age rating (certification) system for movies or TV in a country, from least to most restrictive, with what each rating means. Pass region to limit the result to one country.",
+    schema: ListCertificationsSchema,
+    outputSchema: CertificationListResultSchema,
+    handler: handleListCertifications,
+});
+
+/**
+ * Format a movie's releases in one country; the headline certification is the
+ * theatrical one when present, otherwise the first non-empty one
+ */
+export function formatCountryReleases(
+    country: TMDBReleaseDatesResponse["results"][number],
+    releaseTypes?: readonly ReleaseType[]
+): CountryReleases {
+    const releases = country.release_dates
+        .map((release: TMDBReleaseDate) => ({
+            type: RELEASE_TYPES[release.type - 1] ?? "unknown",
+            release_date: release.release_date.slice(0, 10),
+            certification: release.certification || null,
+            descriptors: release.descriptors ?? [],
+            language: release.iso_639_1 || null,
+            note: release.note || null,
+        }))
+        .sort((a, b) => a.release_date.localeCompare(b.release_date));
+
+    const certified = releases.filter((release) => release.certification);
+    const certification =
+        certified.find((release) => release.type === "theatrical")?.certification ??
+        certified[0]?.certification ??
+        null;
+
+    return {
+        country: country.iso_3166_1,
+        certification,
+        releases: releases.filter(
+            (release) =>
+                !releaseTypes || releaseTypes.some((releaseType) => releaseType === release.type)
+        ),
+    };
+}
+
+/**
+ * Format a TV show's content rating in one country
+ */
+export function formatContentRating(rating: TMDBContentRating): ContentRating {
+    return {
+        country: rating.iso_3166_1,
+        rating: rating.rating,
+        descriptors: rating.descriptors ?? [],
+    };
+}
+
+/**
+ * Handler for get_release_info tool
+ */
+export async function handleGetReleaseInfo(
+    args: z.infer<typeof GetReleaseInfoSchema>,
+    tmdbClient: TMDBClient
+): Promise<ReleaseInfoResult> {
+    const validatedArgs = GetReleaseInfoSchema.parse(args);
+    const { media_type, id, region } = validatedArgs;
+
+    if (media_type === "tv") {
+        if (validatedArgs.release_types) {
+            throw new Error("release_types is only supported for media_type movie");
+        }
+
+        const result = await tmdbClient.getTVContentRatings(id);
+        const ratings = result.results
+            .filter((rating: TMDBContentRating) => !region || rating.iso_3166_1 === region)
+            .map(formatContentRating)
+            .sort((a, b) => a.country.localeCompare(b.country));
+
+        return { media_type, id, region, ratings };
+    }
+
+    const result = await tmdbClient.getMovieReleaseDates(id);
+    const countries = result.results
+        .filter((country) => !region || country.iso_3166_1 === region)
+        .map((country) => formatCountryReleases(country, validatedArgs.release_types))
+        .filter((country) => country.releases.length > 0)
+        .sort((a, b) => a.country.localeCompare(b.country));
+
+    return { media_type, id, region, countries };
+}
+
+/**
+ * Handler for list_certifications tool
+ */
+export async function handleListCertifications(
+    args: z.infer<typeof ListCertificationsSchema>,
+    tmdbClient: TMDBClient
+): Promise<CertificationListResult> {
+    const validatedArgs = ListCertificationsSchema.parse(args);
+    const { media_type, region } = validatedArgs;
+    const result = await tmdbClient.getCertifications(media_type);
+
+    if (region && !result.certifications[region]) {
+        throw new Error(`No ${media_type} certification system found for region ${region}`);
+    }
+
+    const countries = Object.entries(result.certifications)
+        .filter(([country]) => !region || country === region)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([country, certifications]) => ({
+            country,
+            // Ordered from least to most restrictive
+            certifications: [...certifications]
+                .sort((a: TMDBCertification, b: TMDBCertification) => a.order - b.order)
+                .map((certification: TMDBCertification) => ({
+                    certification: certification.certification,
+                    meaning: certification.meaning,
+                })),
+        }));
+
+    return { media_type, region, countries };
+}
+
+/**
+ * Certification tools registered with the server
+ */
+export const certificationTools: ToolDefinition[] = [getReleaseInfoTool, listCertificationsTool];
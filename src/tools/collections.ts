@@ -0,0 +1,156 @@
+/**
+ * Collection (franchise) MCP tools
+ */
+
+import { z } from "zod";
+import { TMDBClient } from "../utils/tmdb-client.js";
+import { buildImageUrl } from "../utils/images.js";
+import { defineTool, type ToolDefinition } from "./registry.js";
+import type { TMDBCollectionSearchResult, TMDBMovie, TMDBMovieDetails } from "../types/tmdb.js";
+import {
+    CollectionResultSchema,
+    SearchCollectionsResultSchema,
+    type CollectionResult,
+    type SearchCollectionsResult,
+} from "../types/results.js";
+
+/**
+ * Zod schema for search_collections tool
+ */
+export const SearchCollectionsSchema = z.object({
+    query: z.string().min(1).describe("Collection or franchise name, e.g. 'Mission: Impossible'"),
+    page: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .default(1)
+        .describe("Page number for paginated results (default: 1)"),
+});
+
+/**
+ * Zod schema for get_collection tool
+ */
+export const GetCollectionSchema = z.object({
+    collection_id: z.number().int().positive().describe("TMDB collection ID"),
+});
+
+/**
+ * Tool definition for search_collections
+ */
+export const searchCollectionsTool = defineTool({
+    name: "search_collections",
+    description:
+        "Search for movie collections (franchises) by name, such as 'Mission: Impossible' or 'The Lord of the Rings'. Returns collection IDs to use with get_collection.",
+    schema: SearchCollectionsSchema,
+    outputSchema: SearchCollectionsResultSchema,
+    handler: handleSearchCollections,
+});
+
+/**
+ * Tool definition for get_collection
+ */
+export const getCollectionTool = defineTool({
+    name: "get_collection",
+    description:
+        "Get every movie in a collection (franchise) in release order, with runtime, rating and box office for each, plus totals: total runtime, average rating and total box office. Answers 'what order should I watch these in'.",
+    schema: GetCollectionSchema,
+    outputSchema: CollectionResultSchema,
+    handler: handleGetCollection,
+});
+
+/**
+ * Handler for search_collections tool
+ */
+export async function handleSearchCollections(
+    args: z.infer<typeof SearchCollectionsSchema>,
+    tmdbClient: TMDBClient
+): Promise<SearchCollectionsResult> {
+    const validatedArgs = SearchCollectionsSchema.parse(args);
+    const result = await tmdbClient.searchCollections(validatedArgs.query, validatedArgs.page);
+
+    const formattedResults = result.results.map((collection: TMDBCollectionSearchResult) => ({
+        id: collection.id,
+        name: collection.name,
+        overview: collection.overview,
+        poster_path: buildImageUrl(collection.poster_path, "poster"),
+    }));
+
+    return {
+        page: result.page,
+        total_results: result.total_results,
+        total_pages: result.total_pages,
+        results: formattedResults,
+    };
+}
+
+/**
+ * Handler for get_collection tool
+ */
+export async function handleGetCollection(
+    args: z.infer<typeof GetCollectionSchema>,
+    tmdbClient: TMDBClient
+): Promise<CollectionResult> {
+    const validatedArgs = GetCollectionSchema.parse(args);
+    const collection = await tmdbClient.getCollection(validatedArgs.collection_id);
+
+    // Release order; announced parts without a date go last
+    const parts = [...collection.parts].sort((a: TMDBMovie, b: TMDBMovie) => {
+        if (!a.release_date || !b.release_date) {
+            return a.release_date ? -1 : b.release_date ? 1 : 0;
+        }
+        return a.release_date.localeCompare(b.release_date);
+    });
+
+    // Runtime and box office are only in movie details (cached and rate limited by the client)
+    const details: TMDBMovieDetails[] = await Promise.all(
+        parts.map((part: TMDBMovie) => tmdbClient.getMovieDetails(part.id))
+    );
+
+    const formattedParts = details.map((movie: TMDBMovieDetails, index: number) => ({
+        order: index + 1,
+        id: movie.id,
+        title: movie.title,
+        release_date: movie.release_date || null,
+        status: movie.status,
+        runtime: movie.runtime,
+        vote_average: movie.vote_average,
+        vote_count: movie.vote_count,
+        budget: movie.budget,
+        revenue: movie.revenue,
+        overview: movie.overview,
+    }));
+
+    const released = details.filter((movie: TMDBMovieDetails) => movie.status === "Released");
+    const rated = released.filter((movie: TMDBMovieDetails) => movie.vote_count > 0);
+    const averageRating =
+        rated.length > 0
+            ? Number(
+                  (
+                      rated.reduce((sum, movie) => sum + movie.vote_average, 0) / rated.length
+                  ).toFixed(1)
+              )
+            : null;
+
+    return {
+        id: collection.id,
+        name: collection.name,
+        overview: collection.overview,
+        poster_path: buildImageUrl(collection.poster_path, "poster"),
+        backdrop_path: buildImageUrl(collection.backdrop_path, "backdrop"),
+        stats: {
+            total_movies: details.length,
+            released_movies: released.length,
+            total_runtime: released.reduce((sum, movie) => sum + (movie.runtime ?? 0), 0),
+            average_rating: averageRating,
+            total_budget: released.reduce((sum, movie) => sum + movie.budget, 0),
+            total_revenue: released.reduce((sum, movie) => sum + movie.revenue, 0),
+        },
+        parts: formattedParts,
+    };
+}
+
+/**
+ * Collection tools registered with the server
+ */
+export const collectionTools: ToolDefinition[] = [searchCollectionsTool, getCollectionTool];
@@ -0,0 +1,280 @@
+/**
+ * Production company and TV network MCP tools
+ */
+
+import { z } from "zod";
+import { TMDBClient } from "../utils/tmdb-client.js";
+import { buildImageUrl } from "../utils/images.js";
+import { defineTool, type ToolDefinition } from "./registry.js";
+import { noExactMatchError, splitFilter } from "./filters.js";
+import type { TMDBCompany } from "../types/tmdb.js";
+import {
+    CompanyDetailsResultSchema,
+    NetworkDetailsResultSchema,
+    SearchCompaniesResultSchema,
+    type CompanyDetailsResult,
+    type CompanySummary,
+    type NetworkDetailsResult,
+    type SearchCompaniesResult,
+} from "../types/results.js";
+
+/**
+ * Well-known TV networks by name
+ * TMDB has no network search, so with_networks resolves names from this list
+ */
+const KNOWN_NETWORKS: Array<{ id: number; name: string; aliases?: string[] }> = [
+    { id: 213, name: "Netflix" },
+    { id: 49, name: "HBO" },
+    { id: 3186, name: "HBO Max", aliases: ["Max"] },
+    { id: 1024, name: "Prime Video", aliases: ["Amazon", "Amazon Prime Video"] },
+    { id: 2552, name: "Apple TV+", aliases: ["Apple TV", "Apple TV Plus"] },
+    { id: 2739, name: "Disney+", aliases: ["Disney Plus"] },
+    { id: 453, name: "Hulu" },
+    { id: 4330, name: "Paramount+", aliases: ["Paramount Plus"] },
+    { id: 3353, name: "Peacock" },
+    { id: 174, name: "AMC" },
+    { id: 88, name: "FX" },
+    { id: 67, name: "Showtime" },
+    { id: 318, name: "Starz" },
+    { id: 2, name: "ABC" },
+    { id: 6, name: "NBC" },
+    { id: 16, name: "CBS" },
+    { id: 19, name: "FOX" },
+    { id: 71, name: "The CW", aliases: ["CW"] },
+    { id: 4, name: "BBC One" },
+    { id: 332, name: "BBC Two" },
+    { id: 26, name: "Channel 4" },
+    { id: 9, name: "ITV1", aliases: ["ITV"] },
+    { id: 1063, name: "Sky Atlantic" },
+    { id: 80, name: "Adult Swim" },
+    { id: 56, name: "Cartoon Network" },
+    { id: 47, name: "Comedy Central" },
+    { id: 77, name: "Syfy" },
+    { id: 30, name: "USA Network" },
+    { id: 41, name: "TNT" },
+    { id: 1112, name: "Crunchyroll" },
+];
+
+/**
+ * Zod schema for search_companies tool
+ */
+export const SearchCompaniesSchema = z.object({
+    query: z.string().min(1).describe("Production company name, e.g. 'A24' or 'Studio Ghibli'"),
+    page: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .default(1)
+        .describe("Page number for paginated results (default: 1)"),
+});
+
+/**
+ * Zod schema for get_company_details tool
+ */
+export const GetCompanyDetailsSchema = z.object({
+    company_id: z.number().int().positive().describe("TMDB production company ID"),
+});
+
+/**
+ * Zod schema for get_network_details tool
+ */
+export const GetNetworkDetailsSchema = z.object({
+    network_id: z
+        .number()
+        .int()
+        .positive()
+        .describe("TMDB TV network ID (listed under networks in get_tv_details)"),
+});
+
+/**
+ * Tool definition for search_companies
+ */
+export const searchCompaniesTool = defineTool({
+    name: "search_companies",
+    description:
+        "Search for production companies and studios by name, such as 'A24', 'Pixar' or 'Studio Ghibli'. Returns company IDs to use with get_company_details or the with_companies filter of discover_movies and discover_tv_shows.",
+    schema: SearchCompaniesSchema,
+    outputSchema: SearchCompaniesResultSchema,
+    handler: handleSearchCompanies,
+});
+
+/**
+ * Tool definition for get_company_details
+ */
+export const getCompanyDetailsTool = defineTool({
+    name: "get_company_details",
+    description:
+        "Get details about a production company: description, headquarters, country, homepage, logo and parent company. To list its titles, use discover_movies or discover_tv_shows with with_companies.",
+    schema: GetCompanyDetailsSchema,
+    outputSchema: CompanyDetailsResultSchema,
+    handler: handleGetCompanyDetails,
+});
+
+/**
+ * Tool definition for get_network_details
+ */
+export const getNetworkDetailsTool = defineTool({
+    name: "get_network_details",
+    description:
+        "Get details about a TV network or streaming service (e.g. HBO, Netflix): headquarters, country, homepage and logo. To list its shows, use discover_tv_shows with with_networks.",
+    schema: GetNetworkDetailsSchema,
+    outputSchema: NetworkDetailsResultSchema,
+    handler: handleGetNetworkDetails,
+});
+
+/**
+ * Format a company or network summary
+ */
+function formatCompany(company: TMDBCompany): CompanySummary {
+    return {
+        id: company.id,
+        name: company.name,
+        origin_country: company.origin_country || null,
+        logo_path: buildImageUrl(company.logo_path, "logo"),
+    };
+}
+
+/**
+ * Handler for search_companies tool
+ */
+export async function handleSearchCompanies(
+    args: z.infer<typeof SearchCompaniesSchema>,
+    tmdbClient: TMDBClient
+): Promise<SearchCompaniesResult> {
+    const validatedArgs = SearchCompaniesSchema.parse(args);
+    const result = await tmdbClient.searchCompanies(validatedArgs.query, validatedArgs.page);
+
+    return {
+        page: result.page,
+        total_results: result.total_results,
+        total_pages: result.total_pages,
+        results: result.results.map(formatCompany),
+    };
+}
+
+/**
+ * Handler for get_company_details tool
+ */
+export async function handleGetCompanyDetails(
+    args: z.infer<typeof GetCompanyDetailsSchema>,
+    tmdbClient: TMDBClient
+): Promise<CompanyDetailsResult> {
+    const validatedArgs = GetCompanyDetailsSchema.parse(args);
+    const company = await tmdbClient.getCompanyDetails(validatedArgs.company_id);
+
+    return {
+        ...formatCompany(company),
+        description: company.description || null,
+        headquarters: company.headquarters || null,
+        homepage: company.homepage || null,
+        parent_company: company.parent_company ? formatCompany(company.parent_company) : null,
+    };
+}
+
+/**
+ * Handler for get_network_details tool
+ */
+export async function handleGetNetworkDetails(
+    args: z.infer<typeof GetNetworkDetailsSchema>,
+    tmdbClient: TMDBClient
+): Promise<NetworkDetailsResult> {
+    const validatedArgs = GetNetworkDetailsSchema.parse(args);
+    const network = await tmdbClient.getNetworkDetails(validatedArgs.network_id);
+
+    return {
+        ...formatCompany(network),
+        headquarters: network.headquarters || null,
+        homepage: network.homepage || null,
+    };
+}
+
+/**
+ * Description for with_companies arguments in discover tools
+ */
+export const COMPANY_FILTER_DESCRIPTION =
+    "Production company names or IDs, comma-separated to require all or '|'-separated to match any (e.g. 'A24' or 'Pixar|DreamWorks Animation'). Names must match a company exactly (see search_companies)";
+
+/**
+ * Description for with_networks argument in discover_tv_shows
+ */
+export const NETWORK_FILTER_DESCRIPTION = `TV network names or IDs, '|'-separated to match any (e.g. 'HBO|Netflix'). Known names: ${KNOWN_NETWORKS.map((network) => network.name).join(", ")}; use the numeric ID from get_tv_details for other networks`;
+
+/**
+ * Resolve a company filter of names and/or IDs into TMDB's ID syntax
+ * "A24" -> "41077"; "Pixar|DreamWorks Animation" -> "3|521"
+ */
+export async function resolveCompanyFilter(
+    filter: string | undefined,
+    tmdbClient: TMDBClient
+): Promise<{ ids: string; companies: Array<{ id: number; name: string }> } | undefined> {
+    if (!filter?.trim()) return undefined;
+
+    const { separator, terms } = splitFilter(filter);
+    const companies = await Promise.all(
+        terms.map(async (term) => {
+            if (/^\d+$/.test(term)) {
+                return { id: Number(term), name: term };
+            }
+
+            const result = await tmdbClient.searchCompanies(term);
+            const match = result.results.find(
+                (company: TMDBCompany) => company.name.toLowerCase() === term.toLowerCase()
+            );
+            if (!match) {
+                throw noExactMatchError("production company", term, result.results);
+            }
+            return { id: match.id, name: match.name };
+        })
+    );
+
+    return {
+        ids: companies.map((company) => company.id).join(separator),
+        companies,
+    };
+}
+
+/**
+ * Resolve a network filter of names and/or IDs into TMDB's ID syntax
+ * "HBO|Netflix" -> "49|213"
+ */
+export function resolveNetworkFilter(
+    filter: string | undefined
+): { ids: string; networks: Array<{ id: number; name: string }> } | undefined {
+    if (!filter?.trim()) return undefined;
+
+    const { separator, terms } = splitFilter(filter);
+    const networks = terms.map((term) => {
+        if (/^\d+$/.test(term)) {
+            const known = KNOWN_NETWORKS.find((network) => network.id === Number(term));
+            return { id: Number(term), name: known?.name ?? term };
+        }
+
+        const name = term.toLowerCase();
+        const match = KNOWN_NETWORKS.find((network) =>
+            [network.name, ...(network.aliases ?? [])].some(
+                (candidate) => candidate.toLowerCase() === name
+            )
+        );
+        if (!match) {
+            throw new Error(
+                `Unknown TV network "${term}"; pass its numeric ID (listed under networks in get_tv_details)`
+            );
+        }
+        return { id: match.id, name: match.name };
+    });
+
+    return {
+        ids: networks.map((network) => network.id).join(separator),
+        networks,
+    };
+}
+
+/**
+ * Company and network tools registered with the server
+ */
+export const companyTools: ToolDefinition[] = [
+    searchCompaniesTool,
+    getCompanyDetailsTool,
+    getNetworkDetailsTool,
+];
@@ -0,0 +1,204 @@
+/**
+ * External ID MCP tools
+ * Cross-link TMDB entries with IMDb, TVDB, Wikidata and social media IDs
+ */
+
+import { z } from "zod";
+import { TMDBClient } from "../utils/tmdb-client.js";
+import { buildImageUrl } from "../utils/images.js";
+import { buildExternalLinks, getKnownExternalIds } from "../utils/external-links.js";
+import { defineTool, type ToolDefinition } from "./registry.js";
+import { formatMovieSearchResult } from "./movies.js";
+import { formatTVShowSearchResult } from "./tv.js";
+import { formatPersonSearchResult } from "./people.js";
+import { getGenreNames } from "./genres.js";
+import {
+    TMDBExternalSourceSchema,
+    type TMDBExternalSource,
+    type TMDBMovie,
+    type TMDBPerson,
+    type TMDBTVShow,
+} from "../types/tmdb.js";
+import {
+    ExternalIdsResultSchema,
+    FindByExternalIdResultSchema,
+    type ExternalIdsResult,
+    type FindByExternalIdResult,
+} from "../types/results.js";
+
+/**
+ * External ID sources supported by TMDB's find endpoint
+ */
+const EXTERNAL_SOURCES = TMDBExternalSourceSchema.options;
+
+/**
+ * Zod schema for find_by_external_id tool
+ */
+export const FindByExternalIdSchema = z.object({
+    external_id: z
+        .string()
+        .trim()
+        .min(1)
+        .describe(
+            "ID in the external system, e.g. IMDb 'tt0133093' or 'nm0000206', Wikidata 'Q83495'"
+        ),
+    external_source: z
+        .enum(EXTERNAL_SOURCES)
+        .optional()
+        .describe(
+            "System the ID comes from. Inferred for IMDb (tt…/nm…) and Wikidata (Q…) IDs; required otherwise, e.g. 'tvdb_id'"
+        ),
+});
+
+/**
+ * Zod schema for get_external_ids tool
+ */
+export const GetExternalIdsSchema = z.object({
+    media_type: z.enum(["movie", "tv", "person"]).describe("Type of content: movie, tv, or person"),
+    id: z.number().int().positive().describe("TMDB movie, TV show, or person ID"),
+    season_number: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("TV only, requires episode_number: season of the episode"),
+    episode_number: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("TV only, requires season_number: get IDs for this episode instead of the show"),
+});
+
+/**
+ * Tool definition for find_by_external_id
+ */
+export const findByExternalIdTool = defineTool({
+    name: "find_by_external_id",
+    description:
+        "Find a movie, TV show, season, episode or person on TMDB by an external ID such as an IMDb ID (tt0133093), TVDB ID, Wikidata ID or social media handle. Returns matching TMDB entries with their TMDB IDs.",
+    schema: FindByExternalIdSchema,
+    outputSchema: FindByExternalIdResultSchema,
+    handler: handleFindByExternalId,
+});
+
+/**
+ * Tool definition for get_external_ids
+ */
+export const getExternalIdsTool = defineTool({
+    name: "get_external_ids",
+    description:
+        "Get the IDs of a movie, TV show, episode or person in other systems: IMDb, TVDB, Wikidata and social media. Returns each ID with a link where one exists, for cross-linking TMDB results back to other data sources.",
+    schema: GetExternalIdsSchema,
+    outputSchema: ExternalIdsResultSchema,
+    handler: handleGetExternalIds,
+});
+
+/**
+ * Infer the external source from well-known ID formats
+ */
+function inferExternalSource(externalId: string): TMDBExternalSource {
+    if (/^(tt|nm)\d+$/.test(externalId)) return "imdb_id";
+    if (/^Q\d+$/.test(externalId)) return "wikidata_id";
+
+    throw new Error(
+        `Cannot infer the source of "${externalId}"; pass external_source (one of: ${EXTERNAL_SOURCES.join(", ")})`
+    );
+}
+
+/**
+ * Handler for find_by_external_id tool
+ */
+export async function handleFindByExternalId(
+    args: z.infer<typeof FindByExternalIdSchema>,
+    tmdbClient: TMDBClient
+): Promise<FindByExternalIdResult> {
+    const validatedArgs = FindByExternalIdSchema.parse(args);
+    const { external_id } = validatedArgs;
+    const source = validatedArgs.external_source ?? inferExternalSource(external_id);
+
+    const [result, movieGenres, tvGenres] = await Promise.all([
+        tmdbClient.findByExternalId(external_id, source),
+        getGenreNames("movie", tmdbClient),
+        getGenreNames("tv", tmdbClient),
+    ]);
+
+    const movies = result.movie_results.map((movie: TMDBMovie) =>
+        formatMovieSearchResult(movie, movieGenres)
+    );
+    const tvShows = result.tv_results.map((show: TMDBTVShow) =>
+        formatTVShowSearchResult(show, tvGenres)
+    );
+    const people = result.person_results.map((person: TMDBPerson) =>
+        formatPersonSearchResult(person)
+    );
+    const seasons = result.tv_season_results.map((season) => ({
+        id: season.id,
+        show_id: season.show_id,
+        season_number: season.season_number,
+        name: season.name,
+        air_date: season.air_date,
+        poster_path: buildImageUrl(season.poster_path, "poster"),
+    }));
+    const episodes = result.tv_episode_results.map((episode) => ({
+        id: episode.id,
+        show_id: episode.show_id,
+        season_number: episode.season_number,
+        episode_number: episode.episode_number,
+        name: episode.name,
+        air_date: episode.air_date,
+        overview: episode.overview,
+    }));
+
+    return {
+        external_id,
+        external_source: source,
+        total_results:
+            movies.length + tvShows.length + people.length + seasons.length + episodes.length,
+        movies,
+        tv_shows: tvShows,
+        people,
+        seasons,
+        episodes,
+    };
+}
+
+/**
+ * Handler for get_external_ids tool
+ */
+export async function handleGetExternalIds(
+    args: z.infer<typeof GetExternalIdsSchema>,
+    tmdbClient: TMDBClient
+): Promise<ExternalIdsResult> {
+    const validatedArgs = GetExternalIdsSchema.parse(args);
+    const { media_type, id, season_number, episode_number } = validatedArgs;
+
+    if ((season_number !== undefined || episode_number !== undefined) && media_type !== "tv") {
+        throw new Error("season_number and episode_number are only supported for media_type tv");
+    }
+    if ((season_number === undefined) !== (episode_number === undefined)) {
+        throw new Error("season_number and episode_number must be given together");
+    }
+
+    const result =
+        season_number !== undefined && episode_number !== undefined
+            ? await tmdbClient.getTVEpisodeExternalIds(id, season_number, episode_number)
+            : await tmdbClient.getExternalIds(media_type, id);
+
+    const externalIds = getKnownExternalIds(result);
+    const links = buildExternalLinks(externalIds);
+
+    return {
+        media_type,
+        id,
+        season_number,
+        episode_number,
+        external_ids: externalIds,
+        links,
+    };
+}
+
+/**
+ * External ID tools registered with the server
+ */
+export const externalIdTools: ToolDefinition[] = [findByExternalIdTool, getExternalIdsTool];
@@ -0,0 +1,38 @@
+/**
+ * Helpers for discover filters that take names or IDs
+ * Shared by the genre, keyword and company/network filters
+ */
+
+// Closest search results listed when a name has no exact match
+const MAX_CANDIDATES = 5;
+
+/**
+ * Split a filter into terms; "|" means match any, "," means match all
+ */
+export function splitFilter(filter: string): { separator: string; terms: string[] } {
+    const separator = filter.includes("|") ? "|" : ",";
+    const terms = filter
+        .split(separator)
+        .map((term) => term.trim())
+        .filter(Boolean);
+
+    return { separator, terms };
+}
+
+/**
+ * Error for a filter name with no exact match, listing the closest search results
+ * Filtering on whatever TMDB ranks first would silently change the query
+ */
+export function noExactMatchError(
+    kind: string,
+    term: string,
+    results: ReadonlyArray<{ id: number; name: string }>
+): Error {
+    const candidates = results.slice(0, MAX_CANDIDATES).map(({ id, name }) => `${name} (${id})`);
+
+    return new Error(
+        candidates.length > 0
+            ? `No TMDB ${kind} named "${term}". Closest matches: ${candidates.join(", ")}`
+            : `No TMDB ${kind} found for "${term}"`
+    );
+}
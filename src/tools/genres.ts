@@ -0,0 +1,200 @@
+/**
+ * Genre MCP tools and helpers
+ * Movie and TV genre lists differ, so filters translate between their equivalents
+ */
+
+import { z } from "zod";
+import { TMDBClient } from "../utils/tmdb-client.js";
+import { defineTool, type ToolDefinition } from "./registry.js";
+import { splitFilter } from "./filters.js";
+import type { TMDBGenre } from "../types/tmdb.js";
+import { GenreListResultSchema, type GenreListResult } from "../types/results.js";
+
+type GenreMediaType = "movie" | "tv";
+
+/**
+ * Genre names by ID for one media type
+ */
+export type GenreNames = Map<number, string>;
+
+/**
+ * Closest genre of the other media type, for genres that only exist on one side
+ */
+const GENRE_EQUIVALENTS: Record<GenreMediaType, Record<number, number>> = {
+    // Movie genre ID -> TV genre ID
+    movie: {
+        28: 10759, // Action -> Action & Adventure
+        12: 10759, // Adventure -> Action & Adventure
+        878: 10765, // Science Fiction -> Sci-Fi & Fantasy
+        14: 10765, // Fantasy -> Sci-Fi & Fantasy
+        10752: 10768, // War -> War & Politics
+    },
+    // TV genre ID -> movie genre ID
+    tv: {
+        10759: 28, // Action & Adventure -> Action
+        10765: 878, // Sci-Fi & Fantasy -> Science Fiction
+        10768: 10752, // War & Politics -> War
+        10762: 10751, // Kids -> Family
+    },
+};
+
+/**
+ * Zod schema for list_genres tool
+ */
+export const ListGenresSchema = z.object({
+    media_type: z.enum(["movie", "tv"]).describe("Type of content: movie or tv"),
+});
+
+/**
+ * Tool definition for list_genres
+ */
+export const listGenresTool = defineTool({
+    name: "list_genres",
+    description:
+        "List TMDB's genres for movies or TV with their IDs. Movie and TV genres differ, e.g. movies have 'Action' while TV has 'Action & Adventure'. Genre names can be passed directly to discover_movies and discover_tv_shows.",
+    schema: ListGenresSchema,
+    outputSchema: GenreListResultSchema,
+    handler: handleListGenres,
+});
+
+/**
+ * Handler for list_genres tool
+ */
+export async function handleListGenres(
+    args: z.infer<typeof ListGenresSchema>,
+    tmdbClient: TMDBClient
+): Promise<GenreListResult> {
+    const validatedArgs = ListGenresSchema.parse(args);
+    const result = await tmdbClient.getGenres(validatedArgs.media_type);
+
+    return {
+        media_type: validatedArgs.media_type,
+        genres: result.genres.map((genre: TMDBGenre) => ({ id: genre.id, name: genre.name })),
+    };
+}
+
+/**
+ * Get genre names by ID (the genre lists are cached by the client)
+ */
+export async function getGenreNames(
+    mediaType: GenreMediaType,
+    tmdbClient: TMDBClient
+): Promise<GenreNames> {
+    const result = await tmdbClient.getGenres(mediaType);
+    return new Map(result.genres.map((genre: TMDBGenre) => [genre.id, genre.name]));
+}
+
+/**
+ * Translate a result's genre_ids into genre names, skipping unknown IDs
+ */
+export function formatGenres(genreIds: number[] | undefined, genreNames: GenreNames): string[] {
+    return (genreIds ?? []).flatMap((id) => genreNames.get(id) ?? []);
+}
+
+/**
+ * Description for with_genres/without_genres arguments in discover tools
+ */
+export const GENRE_FILTER_DESCRIPTION =
+    "Genre names or IDs, comma-separated to require all (e.g. 'Comedy,Romance') or '|'-separated to match any (e.g. 'Horror|Thriller'). Movie and TV equivalents are translated, e.g. 'Action' matches 'Action & Adventure' for TV. English names match in any language. See list_genres";
+
+// Genre names always match in English, whatever the request language
+const MATCH_LANGUAGE = "en-US";
+
+/**
+ * A media type's genres in English and in the client's language
+ */
+interface GenreLists {
+    english: TMDBGenre[];
+    localized: TMDBGenre[];
+}
+
+/**
+ * Get the genre lists to match names against, fetching English names only when the client
+ * requests another language
+ */
+async function getGenreLists(
+    mediaType: GenreMediaType,
+    tmdbClient: TMDBClient
+): Promise<GenreLists> {
+    const { language } = tmdbClient.getLocale();
+    const [{ genres: localized }, english] = await Promise.all([
+        tmdbClient.getGenres(mediaType),
+        !language || language === MATCH_LANGUAGE
+            ? undefined
+            : tmdbClient.withLocale({ language: MATCH_LANGUAGE }).getGenres(mediaType),
+    ]);
+
+    return { english: english?.genres ?? localized, localized };
+}
+
+/**
+ * Find a genre by ID, full name, or one part of an "A & B" name ("Fantasy" matches "Sci-Fi & Fantasy")
+ */
+function findGenreByName(genres: TMDBGenre[], term: string): TMDBGenre | undefined {
+    if (/^\d+$/.test(term)) {
+        return genres.find((genre) => genre.id === Number(term));
+    }
+
+    const name = term.toLowerCase();
+    return (
+        genres.find((genre) => genre.name.toLowerCase() === name) ??
+        genres.find((genre) => genre.name.toLowerCase().split(" & ").includes(name))
+    );
+}
+
+/**
+ * Find a genre by its English name, falling back to its name in the client's language
+ * The match is returned with its localized name for display
+ */
+function findGenre({ english, localized }: GenreLists, term: string): TMDBGenre | undefined {
+    const match = findGenreByName(english, term) ?? findGenreByName(localized, term);
+    return match && (localized.find((genre) => genre.id === match.id) ?? match);
+}
+
+/**
+ * Resolve a genre filter of names and/or IDs into TMDB's ID syntax for the given media type
+ * "Action,Comedy" -> "28,35" for movies and "10759,35" for TV
+ */
+export async function resolveGenreFilter(
+    filter: string | undefined,
+    mediaType: GenreMediaType,
+    tmdbClient: TMDBClient
+): Promise<{ ids: string; genres: TMDBGenre[] } | undefined> {
+    if (!filter?.trim()) return undefined;
+
+    const otherType: GenreMediaType = mediaType === "movie" ? "tv" : "movie";
+    const [genres, otherGenres] = await Promise.all([
+        getGenreLists(mediaType, tmdbClient),
+        getGenreLists(otherType, tmdbClient),
+    ]);
+
+    const { separator, terms } = splitFilter(filter);
+
+    const resolved = terms.map((term): TMDBGenre => {
+        const match = findGenre(genres, term);
+        if (match) return match;
+
+        // Fall back to the equivalent of a genre from the other media type
+        const other = findGenre(otherGenres, term);
+        const equivalentId = other && GENRE_EQUIVALENTS[otherType][other.id];
+        const equivalent = genres.localized.find((genre) => genre.id === equivalentId);
+        if (equivalent) return equivalent;
+
+        throw new Error(
+            `No ${mediaType} genre found for "${term}". Available genres: ${genres.english.map((genre) => genre.name).join(", ")}`
+        );
+    });
+
+    // "Action,Adventure" both map to "Action & Adventure" for TV
+    const unique = [...new Map(resolved.map((genre) => [genre.id, genre])).values()];
+
+    return {
+        ids: unique.map((genre) => genre.id).join(separator),
+        genres: unique,
+    };
+}
+
+/**
+ * Genre tools registered with the server
+ */
+export const genreTools: ToolDefinition[] = [listGenresTool];
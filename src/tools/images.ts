@@ -0,0 +1,173 @@
+/**
+ * Image-related MCP tools
+ */
+
+import { z } from "zod";
+import { TMDBClient } from "../utils/tmdb-client.js";
+import {
+    buildImageUrl,
+    getImageSizes,
+    resolveImageSize,
+    IMAGE_SIZES,
+    type ImageType,
+} from "../utils/images.js";
+import { defineTool, type ToolDefinition } from "./registry.js";
+import type { TMDBImage, TMDBImagesResponse } from "../types/tmdb.js";
+import { ImagesResultSchema, type Image, type ImagesResult } from "../types/results.js";
+
+/**
+ * Image lists returned by TMDB and the image type used to size each
+ */
+export const IMAGE_LISTS = {
+    posters: "poster",
+    backdrops: "backdrop",
+    logos: "logo",
+    profiles: "profile",
+    stills: "still",
+} as const satisfies Record<string, ImageType>;
+
+export type ImageListName = keyof typeof IMAGE_LISTS;
+
+/**
+ * Zod schema for get_images tool
+ */
+export const GetImagesSchema = z.object({
+    media_type: z.enum(["movie", "tv", "person"]).describe("Type of content: movie, tv, or person"),
+    id: z.number().int().positive().describe("TMDB movie, TV show, or person ID"),
+    season_number: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("TV only: get posters for this season instead of the show"),
+    episode_number: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("TV only, requires season_number: get stills for this episode"),
+    image_types: z
+        .array(z.enum(["posters", "backdrops", "logos", "profiles", "stills"]))
+        .optional()
+        .describe("Only return these image lists (default: all available)"),
+    language: z
+        .string()
+        .regex(/^[a-z]{2}$/, "Language must be a two-letter ISO 639-1 code")
+        .optional()
+        .describe(
+            "ISO 639-1 language code (e.g. 'en', 'ja'). Returns images in that language plus images without text"
+        ),
+    size: z
+        .enum(IMAGE_SIZES)
+        .optional()
+        .describe("Image size: small, medium, large, or original (default: server setting)"),
+    limit: z
+        .number()
+        .int()
+        .positive()
+        .max(50)
+        .optional()
+        .default(10)
+        .describe("Maximum images per list, highest voted first (default: 10)"),
+});
+
+/**
+ * Tool definition for get_images
+ */
+export const getImagesTool = defineTool({
+    name: "get_images",
+    description:
+        "Get images for a movie, TV show, season, episode, or person. Returns posters, backdrops, logos, profile photos or episode stills with URLs, dimensions, language and votes. Use size to pick smaller images and save bandwidth.",
+    schema: GetImagesSchema,
+    outputSchema: ImagesResultSchema,
+    handler: handleGetImages,
+});
+
+/**
+ * Format an image with a URL at the requested size
+ */
+export function formatImage(
+    image: TMDBImage,
+    type: ImageType,
+    size?: z.infer<typeof GetImagesSchema>["size"]
+): Image {
+    return {
+        url: buildImageUrl(image.file_path, type, size),
+        file_path: image.file_path,
+        width: image.width,
+        height: image.height,
+        aspect_ratio: image.aspect_ratio,
+        language: image.iso_639_1,
+        vote_average: image.vote_average,
+        vote_count: image.vote_count,
+    };
+}
+
+/**
+ * Handler for get_images tool
+ */
+export async function handleGetImages(
+    args: z.infer<typeof GetImagesSchema>,
+    tmdbClient: TMDBClient
+): Promise<ImagesResult> {
+    const validatedArgs = GetImagesSchema.parse(args);
+    const { media_type, id, season_number, episode_number } = validatedArgs;
+
+    if ((season_number !== undefined || episode_number !== undefined) && media_type !== "tv") {
+        throw new Error("season_number and episode_number are only supported for media_type tv");
+    }
+    if (episode_number !== undefined && season_number === undefined) {
+        throw new Error("episode_number requires season_number");
+    }
+
+    // Images without text have no language; include them alongside the requested language
+    const languages = validatedArgs.language ? [validatedArgs.language, "null"] : undefined;
+
+    let result: TMDBImagesResponse;
+    if (season_number === undefined) {
+        result = await tmdbClient.getImages(media_type, id, languages);
+    } else if (episode_number === undefined) {
+        result = await tmdbClient.getTVSeasonImages(id, season_number, languages);
+    } else {
+        result = await tmdbClient.getTVEpisodeImages(id, season_number, episode_number, languages);
+    }
+
+    const requestedLists =
+        validatedArgs.image_types ?? (Object.keys(IMAGE_LISTS) as ImageListName[]);
+    const lists = Object.fromEntries(
+        requestedLists
+            .filter((name) => result[name] !== undefined)
+            .map((name) => {
+                const type = IMAGE_LISTS[name];
+                const images = [...(result[name] ?? [])].sort(
+                    (a, b) => b.vote_average - a.vote_average || b.vote_count - a.vote_count
+                );
+
+                return [
+                    name,
+                    {
+                        total: images.length,
+                        size: resolveImageSize(type, validatedArgs.size),
+                        available_sizes: getImageSizes(type),
+                        images: images
+                            .slice(0, validatedArgs.limit)
+                            .map((image) => formatImage(image, type, validatedArgs.size)),
+                    },
+                ];
+            })
+    );
+
+    return {
+        media_type,
+        id,
+        season_number,
+        episode_number,
+        language: validatedArgs.language,
+        ...lists,
+    };
+}
+
+/**
+ * Image tools registered with the server
+ */
+export const imageTools: ToolDefinition[] = [getImagesTool];
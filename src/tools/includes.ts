@@ -0,0 +1,220 @@
+/**
+ * Include option shared by the detail tools
+ * Extra sections are fetched in the same TMDB request with append_to_response and
+ * formatted like the matching standalone tools (get_videos, get_images, ...)
+ */
+
+import { z } from "zod";
+import type { TMDBLocale } from "../utils/tmdb-client.js";
+import { buildExternalLinks, getKnownExternalIds } from "../utils/external-links.js";
+import { compareVideos, formatVideo } from "./videos.js";
+import { IMAGE_LISTS, formatImage, type ImageListName } from "./images.js";
+import { DEFAULT_REGION, formatRegionProviders } from "./watch-providers.js";
+import { formatContentRating, formatCountryReleases } from "./certifications.js";
+import type {
+    TMDBContentRatingsResponse,
+    TMDBExternalIds,
+    TMDBImagesResponse,
+    TMDBKeywordsResponse,
+    TMDBMovieAppend,
+    TMDBPersonAppend,
+    TMDBReleaseDatesResponse,
+    TMDBTVShowAppend,
+    TMDBVideosResponse,
+    TMDBWatchProvidersResponse,
+} from "../types/tmdb.js";
+import type {
+    ImageLists,
+    IncludedSections,
+    VideoList,
+    WatchAvailability,
+} from "../types/results.js";
+
+// Items listed per included section; the standalone tools return every item
+export const INCLUDE_LIMIT = 10;
+
+/**
+ * Include options for get_movie_details and the TMDB sub-request each maps to
+ */
+export const MOVIE_INCLUDES = {
+    credits: "credits",
+    videos: "videos",
+    images: "images",
+    keywords: "keywords",
+    watch_providers: "watch/providers",
+    external_ids: "external_ids",
+    release_dates: "release_dates",
+    similar: "similar",
+} as const satisfies Record<string, TMDBMovieAppend>;
+
+/**
+ * Include options for get_tv_details and the TMDB sub-request each maps to
+ */
+export const TV_INCLUDES = {
+    credits: "credits",
+    videos: "videos",
+    images: "images",
+    keywords: "keywords",
+    watch_providers: "watch/providers",
+    external_ids: "external_ids",
+    content_ratings: "content_ratings",
+    similar: "similar",
+} as const satisfies Record<string, TMDBTVShowAppend>;
+
+/**
+ * Include options for get_person_details and the TMDB sub-request each maps to
+ */
+export const PERSON_INCLUDES = {
+    credits: "combined_credits",
+    images: "images",
+    external_ids: "external_ids",
+} as const satisfies Record<string, TMDBPersonAppend>;
+
+/**
+ * Zod schema for a detail tool's include argument
+ */
+export function includeSchema<T extends string>(includes: Record<T, string>) {
+    const names = Object.keys(includes) as [T, ...T[]];
+
+    return z
+        .array(z.enum(names))
+        .optional()
+        .default([])
+        .describe(
+            `Extra sections to fetch in the same request, e.g. ['credits', 'videos']. Available: ${names.join(", ")} (default: none)`
+        );
+}
+
+/**
+ * Map include options to the TMDB sub-requests to append
+ */
+export function toAppendToResponse<T extends string, A extends string>(
+    include: readonly T[],
+    includes: Record<T, A>
+): A[] {
+    return include.map((name) => includes[name]);
+}
+
+/**
+ * Appended sub-requests formatted by formatIncludedSections
+ * Credits and similar titles are formatted by each detail tool
+ */
+interface IncludedResponses {
+    videos?: TMDBVideosResponse;
+    images?: Omit<TMDBImagesResponse, "id">;
+    keywords?: Omit<TMDBKeywordsResponse, "id">;
+    "watch/providers"?: Omit<TMDBWatchProvidersResponse, "id">;
+    external_ids?: Omit<TMDBExternalIds, "id">;
+    release_dates?: Omit<TMDBReleaseDatesResponse, "id">;
+    content_ratings?: Omit<TMDBContentRatingsResponse, "id">;
+}
+
+/**
+ * Format the videos section: trailers first, preferring the request language
+ */
+function formatIncludedVideos(videos: TMDBVideosResponse, language: string): VideoList {
+    const sorted = [...videos.results].sort(compareVideos(language));
+    const bestTrailer = sorted.find((video) => video.type === "Trailer");
+
+    return {
+        best_trailer: bestTrailer ? formatVideo(bestTrailer) : null,
+        total_results: sorted.length,
+        videos: sorted.slice(0, INCLUDE_LIMIT).map(formatVideo),
+    };
+}
+
+/**
+ * Format the images section: the highest voted images of each type
+ */
+function formatIncludedImages(images: Omit<TMDBImagesResponse, "id">): ImageLists {
+    const names = Object.keys(IMAGE_LISTS) as ImageListName[];
+
+    return Object.fromEntries(
+        names
+            .filter((name) => images[name] !== undefined)
+            .map((name) => {
+                const list = [...(images[name] ?? [])].sort(
+                    (a, b) => b.vote_average - a.vote_average || b.vote_count - a.vote_count
+                );
+                return [
+                    name,
+                    {
+                        total: list.length,
+                        images: list
+                            .slice(0, INCLUDE_LIMIT)
+                            .map((image) => formatImage(image, IMAGE_LISTS[name])),
+                    },
+                ];
+            })
+    );
+}
+
+/**
+ * Format the watch providers section for one region
+ */
+function formatIncludedWatchProviders(
+    providers: Omit<TMDBWatchProvidersResponse, "id">,
+    region: string
+): WatchAvailability {
+    const regionProviders = providers.results[region];
+    if (!regionProviders) {
+        return {
+            region,
+            available: false,
+            available_regions: Object.keys(providers.results).sort(),
+        };
+    }
+
+    return {
+        region,
+        available: true,
+        ...formatRegionProviders(regionProviders),
+        attribution: "Watch provider data by JustWatch",
+    };
+}
+
+/**
+ * Format the appended sections shared by the detail tools
+ * Sections that weren't requested are left undefined and dropped from the JSON output
+ */
+export function formatIncludedSections(
+    response: IncludedResponses,
+    locale: TMDBLocale
+): IncludedSections {
+    const language = locale.language?.slice(0, 2) ?? "en";
+    const region = locale.region ?? DEFAULT_REGION;
+    const { release_dates, content_ratings, external_ids } = response;
+
+    const countryReleases = release_dates?.results.find((country) => country.iso_3166_1 === region);
+    const contentRating = content_ratings?.results.find((rating) => rating.iso_3166_1 === region);
+    const externalIds = external_ids && getKnownExternalIds(external_ids);
+
+    return {
+        videos: response.videos && formatIncludedVideos(response.videos, language),
+        images: response.images && formatIncludedImages(response.images),
+        // Movies return "keywords", TV shows return "results"
+        keywords:
+            response.keywords &&
+            (response.keywords.keywords ?? response.keywords.results ?? []).map((keyword) => ({
+                id: keyword.id,
+                name: keyword.name,
+            })),
+        watch_providers:
+            response["watch/providers"] &&
+            formatIncludedWatchProviders(response["watch/providers"], region),
+        external_ids: externalIds && {
+            external_ids: externalIds,
+            links: buildExternalLinks(externalIds),
+        },
+        release_dates:
+            release_dates &&
+            (countryReleases
+                ? formatCountryReleases(countryReleases)
+                : { country: region, certification: null, releases: [] }),
+        content_ratings:
+            content_ratings &&
+            (contentRating
+                ? formatContentRating(contentRating)
+                : { country: region, rating: null, descriptors: [] }),
+    };
+}
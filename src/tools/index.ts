@@ -0,0 +1,39 @@
+/**
+ * All MCP tools exposed by the server
+ * To add a tool, define it with defineTool() in its module and add it to that module's list
+ */
+
+import { ToolRegistry } from "./registry.js";
+import { movieTools } from "./movies.js";
+import { tvTools } from "./tv.js";
+import { peopleTools } from "./people.js";
+import { watchProviderTools } from "./watch-providers.js";
+import { searchTools } from "./search.js";
+import { listTools } from "./lists.js";
+import { imageTools } from "./images.js";
+import { videoTools } from "./videos.js";
+import { reviewTools } from "./reviews.js";
+import { keywordTools } from "./keywords.js";
+import { genreTools } from "./genres.js";
+import { collectionTools } from "./collections.js";
+import { certificationTools } from "./certifications.js";
+import { externalIdTools } from "./external-ids.js";
+import { companyTools } from "./companies.js";
+
+export const toolRegistry = new ToolRegistry([
+    ...searchTools,
+    ...movieTools,
+    ...tvTools,
+    ...listTools,
+    ...peopleTools,
+    ...watchProviderTools,
+    ...imageTools,
+    ...videoTools,
+    ...reviewTools,
+    ...genreTools,
+    ...keywordTools,
+    ...collectionTools,
+    ...certificationTools,
+    ...externalIdTools,
+    ...companyTools,
+]);
@@ -0,0 +1,152 @@
+/**
+ * Keyword-related MCP tools
+ * Keywords tag themes and topics ("time loop", "heist", "cyberpunk") and power mood-based discovery
+ */
+
+import { z } from "zod";
+import { TMDBClient } from "../utils/tmdb-client.js";
+import { defineTool, type ToolDefinition } from "./registry.js";
+import { noExactMatchError, splitFilter } from "./filters.js";
+import type { TMDBKeyword } from "../types/tmdb.js";
+import {
+    KeywordsResultSchema,
+    SearchKeywordsResultSchema,
+    type KeywordsResult,
+    type SearchKeywordsResult,
+} from "../types/results.js";
+
+/**
+ * Zod schema for search_keywords tool
+ */
+export const SearchKeywordsSchema = z.object({
+    query: z.string().min(1).describe("Keyword to search for, e.g. 'time loop' or 'heist'"),
+    page: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .default(1)
+        .describe("Page number for paginated results (default: 1)"),
+});
+
+/**
+ * Zod schema for get_keywords tool
+ */
+export const GetKeywordsSchema = z.object({
+    media_type: z.enum(["movie", "tv"]).describe("Type of content: movie or tv"),
+    id: z.number().int().positive().describe("TMDB movie or TV show ID"),
+});
+
+/**
+ * Tool definition for search_keywords
+ */
+export const searchKeywordsTool = defineTool({
+    name: "search_keywords",
+    description:
+        "Search TMDB keywords (themes and topics like 'time loop', 'heist', 'cyberpunk'). Returns keyword IDs and names that can be used with with_keywords in discover_movies and discover_tv_shows.",
+    schema: SearchKeywordsSchema,
+    outputSchema: SearchKeywordsResultSchema,
+    handler: handleSearchKeywords,
+});
+
+/**
+ * Tool definition for get_keywords
+ */
+export const getKeywordsTool = defineTool({
+    name: "get_keywords",
+    description:
+        "Get the keywords (themes and topics) tagged on a movie or TV show. Useful for finding similar titles by theme with discover_movies or discover_tv_shows.",
+    schema: GetKeywordsSchema,
+    outputSchema: KeywordsResultSchema,
+    handler: handleGetKeywords,
+});
+
+/**
+ * Handler for search_keywords tool
+ */
+export async function handleSearchKeywords(
+    args: z.infer<typeof SearchKeywordsSchema>,
+    tmdbClient: TMDBClient
+): Promise<SearchKeywordsResult> {
+    const validatedArgs = SearchKeywordsSchema.parse(args);
+    const result = await tmdbClient.searchKeywords(validatedArgs.query, validatedArgs.page);
+
+    return {
+        page: result.page,
+        total_results: result.total_results,
+        total_pages: result.total_pages,
+        results: result.results.map((keyword: TMDBKeyword) => ({
+            id: keyword.id,
+            name: keyword.name,
+        })),
+    };
+}
+
+/**
+ * Handler for get_keywords tool
+ */
+export async function handleGetKeywords(
+    args: z.infer<typeof GetKeywordsSchema>,
+    tmdbClient: TMDBClient
+): Promise<KeywordsResult> {
+    const validatedArgs = GetKeywordsSchema.parse(args);
+    const result = await tmdbClient.getKeywords(validatedArgs.media_type, validatedArgs.id);
+
+    // Movies return "keywords", TV shows return "results"
+    const keywords = result.keywords ?? result.results ?? [];
+
+    return {
+        media_type: validatedArgs.media_type,
+        id: result.id,
+        keywords: keywords.map((keyword: TMDBKeyword) => ({
+            id: keyword.id,
+            name: keyword.name,
+        })),
+    };
+}
+
+/**
+ * Description for with_keywords/without_keywords arguments in discover tools
+ */
+export const KEYWORD_FILTER_DESCRIPTION =
+    "Keyword names or IDs, comma-separated to require all (e.g. 'time loop,romance') or '|'-separated to match any (e.g. 'heist|con artist'). Names must match a TMDB keyword exactly (see search_keywords)";
+
+/**
+ * Resolve a keyword filter of names and/or IDs into TMDB's ID syntax
+ * "time loop,romance" -> "4379,9840"; "heist|con artist" -> "10051|11800"
+ */
+export async function resolveKeywordFilter(
+    filter: string | undefined,
+    tmdbClient: TMDBClient
+): Promise<{ ids: string; keywords: TMDBKeyword[] } | undefined> {
+    if (!filter?.trim()) return undefined;
+
+    const { separator, terms } = splitFilter(filter);
+
+    const keywords = await Promise.all(
+        terms.map(async (term): Promise<TMDBKeyword> => {
+            if (/^\d+$/.test(term)) {
+                return { id: Number(term), name: term };
+            }
+
+            const result = await tmdbClient.searchKeywords(term);
+            const match = result.results.find(
+                (keyword: TMDBKeyword) => keyword.name.toLowerCase() === term.toLowerCase()
+            );
+            if (!match) {
+                throw noExactMatchError("keyword", term, result.results);
+            }
+            return match;
+        })
+    );
+
+    return {
+        ids: keywords.map((keyword) => keyword.id).join(separator),
+        keywords,
+    };
+}
+
+/**
+ * Keyword tools registered with the server
+ */
+export const keywordTools: ToolDefinition[] = [searchKeywordsTool, getKeywordsTool];
@@ -0,0 +1,210 @@
+/**
+ * Curated list MCP tools: now playing, upcoming, popular and top rated
+ */
+
+import { z } from "zod";
+import { TMDBClient } from "../utils/tmdb-client.js";
+import { defineTool, type ToolDefinition } from "./registry.js";
+import { formatMovieSearchResult } from "./movies.js";
+import { formatTVShowSearchResult } from "./tv.js";
+import { getGenreNames } from "./genres.js";
+import type { TMDBMovie, TMDBTVShow } from "../types/tmdb.js";
+import {
+    MovieListResultSchema,
+    TVListResultSchema,
+    type MovieListResult,
+    type TVListResult,
+} from "../types/results.js";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// TMDB's default timezone for deciding which episodes air today
+const DEFAULT_TIMEZONE = "America/New_York";
+
+/**
+ * Check that a timezone is an IANA name the runtime knows
+ */
+function isValidTimezone(timezone: string): boolean {
+    try {
+        new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Zod schema for get_movie_list tool
+ */
+export const GetMovieListSchema = z.object({
+    list: z
+        .enum(["now_playing", "upcoming", "popular", "top_rated"])
+        .describe(
+            "now_playing: in theaters now; upcoming: releasing in theaters soon; popular: popular right now; top_rated: highest rated of all time"
+        ),
+    region: z
+        .string()
+        .regex(/^[A-Za-z]{2}$/, "Region must be a two-letter ISO 3166-1 code")
+        .toUpperCase()
+        .optional()
+        .describe(
+            "ISO 3166-1 country code for theatrical release dates, e.g. 'US', 'GB' (default: server setting)"
+        ),
+    page: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .default(1)
+        .describe("Page number for paginated results (default: 1)"),
+});
+
+/**
+ * Zod schema for get_tv_list tool
+ */
+export const GetTVListSchema = z.object({
+    list: z
+        .enum(["airing_today", "on_the_air", "popular", "top_rated"])
+        .describe(
+            "airing_today: episodes airing today; on_the_air: episodes airing in the next 7 days; popular: popular right now; top_rated: highest rated of all time"
+        ),
+    timezone: z
+        .string()
+        .refine(isValidTimezone, "Timezone must be an IANA name, e.g. 'Europe/London'")
+        .optional()
+        .default(DEFAULT_TIMEZONE)
+        .describe(
+            "IANA timezone deciding which days airing_today and on_the_air cover, e.g. 'Europe/London' (default: America/New_York)"
+        ),
+    page: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .default(1)
+        .describe("Page number for paginated results (default: 1)"),
+});
+
+/**
+ * Tool definition for get_movie_list
+ */
+export const getMovieListTool = defineTool({
+    name: "get_movie_list",
+    description:
+        "Get TMDB's curated movie lists: now playing in theaters, upcoming releases, popular, or all-time top rated. Now playing and upcoming are region-aware and return the release date window they cover. Use this instead of discover_movies for 'what's in theaters this week'.",
+    schema: GetMovieListSchema,
+    outputSchema: MovieListResultSchema,
+    handler: handleGetMovieList,
+});
+
+/**
+ * Tool definition for get_tv_list
+ */
+export const getTVListTool = defineTool({
+    name: "get_tv_list",
+    description:
+        "Get TMDB's curated TV lists: shows airing today, shows with episodes in the next 7 days, popular, or all-time top rated. Airing lists use the timezone argument to decide which days count and return the air date window they cover.",
+    schema: GetTVListSchema,
+    outputSchema: TVListResultSchema,
+    handler: handleGetTVList,
+});
+
+/**
+ * Add days to a YYYY-MM-DD date
+ */
+function addDays(date: string, days: number): string {
+    return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY).toISOString().slice(0, 10);
+}
+
+/**
+ * Whether a TV list covers a window of air dates in a timezone
+ */
+function isAiringList(list: z.infer<typeof GetTVListSchema>["list"]): boolean {
+    return list === "airing_today" || list === "on_the_air";
+}
+
+/**
+ * Air date window covered by a TV list
+ * TMDB doesn't return one for TV; airing lists cover today or the next 7 days in the
+ * timezone sent with the request
+ */
+function getAirDateWindow(
+    list: z.infer<typeof GetTVListSchema>["list"],
+    timezone: string
+): TVListResult["dates"] {
+    // en-CA formats dates as YYYY-MM-DD
+    const today = new Intl.DateTimeFormat("en-CA", {
+        timeZone: timezone,
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+    }).format(new Date());
+    if (list === "airing_today") {
+        return { minimum: today, maximum: today };
+    }
+    if (list === "on_the_air") {
+        return { minimum: today, maximum: addDays(today, 6) };
+    }
+    return null;
+}
+
+/**
+ * Handler for get_movie_list tool
+ */
+export async function handleGetMovieList(
+    args: z.infer<typeof GetMovieListSchema>,
+    tmdbClient: TMDBClient
+): Promise<MovieListResult> {
+    const validatedArgs = GetMovieListSchema.parse(args);
+    const region = validatedArgs.region ?? tmdbClient.getLocale().region;
+    const [result, genreNames] = await Promise.all([
+        tmdbClient.getMovieList(validatedArgs.list, validatedArgs.page, region),
+        getGenreNames("movie", tmdbClient),
+    ]);
+
+    return {
+        list: validatedArgs.list,
+        region,
+        // Only now_playing and upcoming cover a release date window
+        dates: result.dates ?? null,
+        page: result.page,
+        total_results: result.total_results,
+        total_pages: result.total_pages,
+        results: result.results.map((movie: TMDBMovie) =>
+            formatMovieSearchResult(movie, genreNames)
+        ),
+    };
+}
+
+/**
+ * Handler for get_tv_list tool
+ */
+export async function handleGetTVList(
+    args: z.infer<typeof GetTVListSchema>,
+    tmdbClient: TMDBClient
+): Promise<TVListResult> {
+    const validatedArgs = GetTVListSchema.parse(args);
+    // Only the airing lists depend on the timezone; the others share one cache entry
+    const timezone = isAiringList(validatedArgs.list) ? validatedArgs.timezone : undefined;
+    const [result, genreNames] = await Promise.all([
+        tmdbClient.getTVList(validatedArgs.list, validatedArgs.page, timezone),
+        getGenreNames("tv", tmdbClient),
+    ]);
+
+    return {
+        list: validatedArgs.list,
+        timezone: timezone ?? null,
+        dates: timezone ? getAirDateWindow(validatedArgs.list, timezone) : null,
+        page: result.page,
+        total_results: result.total_results,
+        total_pages: result.total_pages,
+        results: result.results.map((show: TMDBTVShow) =>
+            formatTVShowSearchResult(show, genreNames)
+        ),
+    };
+}
+
+/**
+ * Curated list tools registered with the server
+ */
+export const listTools: ToolDefinition[] = [getMovieListTool, getTVListTool];
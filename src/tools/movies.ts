@@ -4,7 +4,49 @@
 
 import { z } from "zod";
 import { TMDBClient } from "../utils/tmdb-client.js";
-import type { TMDBMovie, TMDBMovieDetails } from "../types/tmdb.js";
+import { buildImageUrl } from "../utils/images.js";
+import { defineTool, type ToolDefinition } from "./registry.js";
+import { KEYWORD_FILTER_DESCRIPTION, resolveKeywordFilter } from "./keywords.js";
+import {
+    GENRE_FILTER_DESCRIPTION,
+    formatGenres,
+    getGenreNames,
+    resolveGenreFilter,
+    type GenreNames,
+} from "./genres.js";
+import { COMPANY_FILTER_DESCRIPTION, resolveCompanyFilter } from "./companies.js";
+import {
+    INCLUDE_LIMIT,
+    MOVIE_INCLUDES,
+    formatIncludedSections,
+    includeSchema,
+    toAppendToResponse,
+} from "./includes.js";
+import type {
+    TMDBCastMember,
+    TMDBCreditsResponse,
+    TMDBCrewMember,
+    TMDBMovie,
+    TMDBTrendingItem,
+} from "../types/tmdb.js";
+import {
+    DiscoverMoviesResultSchema,
+    MovieCreditsResultSchema,
+    MovieDetailsResultSchema,
+    MovieRecommendationsResultSchema,
+    SearchMoviesResultSchema,
+    TrendingResultSchema,
+    type Credits,
+    type DiscoverMoviesResult,
+    type MovieCreditsResult,
+    type MovieDetailsResult,
+    type MovieListItem,
+    type MovieRecommendationsResult,
+    type MovieSummary,
+    type SearchMoviesResult,
+    type TrendingItem,
+    type TrendingResult,
+} from "../types/results.js";
 
 /**
  * Zod schema for search_movies tool
@@ -25,87 +67,76 @@ export const SearchMoviesSchema = z.object({
  */
 export const GetMovieDetailsSchema = z.object({
     movie_id: z.number().int().positive().describe("TMDB movie ID"),
+    include: includeSchema(MOVIE_INCLUDES),
 });
 
 /**
  * Tool definition for search_movies
  */
-export const searchMoviesTool = {
+export const searchMoviesTool = defineTool({
     name: "search_movies",
     description:
         "Search for movies by title. Returns a list of movies matching the search query with basic information like title, release date, overview, and rating.",
-    inputSchema: {
-        type: "object",
-        properties: {
-            query: {
-                type: "string",
-                description: "Movie title to search for",
-            },
-            page: {
-                type: "number",
-                description: "Page number for paginated results (default: 1)",
-            },
-        },
-        required: ["query"],
-    },
-};
+    schema: SearchMoviesSchema,
+    outputSchema: SearchMoviesResultSchema,
+    handler: handleSearchMovies,
+});
 
 /**
  * Tool definition for get_movie_details
  */
-export const getMovieDetailsTool = {
+export const getMovieDetailsTool = defineTool({
     name: "get_movie_details",
     description:
-        "Get detailed information about a specific movie using its TMDB ID. Returns comprehensive details including budget, revenue, runtime, genres, production companies, and more.",
-    inputSchema: {
-        type: "object",
-        properties: {
-            movie_id: {
-                type: "number",
-                description: "TMDB movie ID",
-            },
-        },
-        required: ["movie_id"],
-    },
-};
+        "Get detailed information about a specific movie using its TMDB ID. Returns comprehensive details including budget, revenue, runtime, genres, production companies, the collection (franchise) it belongs to, and more. Pass include to add credits, videos, images, keywords, watch providers, external IDs, release dates or similar movies in the same request.",
+    schema: GetMovieDetailsSchema,
+    outputSchema: MovieDetailsResultSchema,
+    handler: handleGetMovieDetails,
+});
 
 /**
- * Handler for search_movies tool
+ * Format a movie search result
+ * Shared by search_movies and search_all
  */
-export async function handleSearchMovies(
-    args: z.infer<typeof SearchMoviesSchema>,
-    tmdbClient: TMDBClient
-): Promise<string> {
-    const validatedArgs = SearchMoviesSchema.parse(args);
-    const result = await tmdbClient.searchMovies(validatedArgs.query, validatedArgs.page);
-
-    const formattedResults = result.results.map((movie: TMDBMovie) => ({
+export function formatMovieSearchResult(movie: TMDBMovie, genreNames: GenreNames): MovieSummary {
+    return {
         id: movie.id,
         title: movie.title,
         original_title: movie.original_title,
         release_date: movie.release_date,
+        genres: formatGenres(movie.genre_ids, genreNames),
         overview: movie.overview,
         vote_average: movie.vote_average,
         vote_count: movie.vote_count,
         popularity: movie.popularity,
-        poster_path: movie.poster_path
-            ? `https://image.tmdb.org/t/p/w500${movie.poster_path}`
-            : null,
-        backdrop_path: movie.backdrop_path
-            ? `https://image.tmdb.org/t/p/original${movie.backdrop_path}`
-            : null,
-    }));
+        poster_path: buildImageUrl(movie.poster_path, "poster"),
+        backdrop_path: buildImageUrl(movie.backdrop_path, "backdrop"),
+    };
+}
 
-    return JSON.stringify(
-        {
-            page: result.page,
-            total_results: result.total_results,
-            total_pages: result.total_pages,
-            results: formattedResults,
-        },
-        null,
-        2
+/**
+ * Handler for search_movies tool
+ */
+export async function handleSearchMovies(
+    args: z.infer<typeof SearchMoviesSchema>,
+    tmdbClient: TMDBClient
+): Promise<SearchMoviesResult> {
+    const validatedArgs = SearchMoviesSchema.parse(args);
+    const [result, genreNames] = await Promise.all([
+        tmdbClient.searchMovies(validatedArgs.query, validatedArgs.page),
+        getGenreNames("movie", tmdbClient),
+    ]);
+
+    const formattedResults = result.results.map((movie: TMDBMovie) =>
+        formatMovieSearchResult(movie, genreNames)
     );
+
+    return {
+        page: result.page,
+        total_results: result.total_results,
+        total_pages: result.total_pages,
+        results: formattedResults,
+    };
 }
 
 /**
@@ -114,9 +145,17 @@ export async function handleSearchMovies(
 export async function handleGetMovieDetails(
     args: z.infer<typeof GetMovieDetailsSchema>,
     tmdbClient: TMDBClient
-): Promise<string> {
+): Promise<MovieDetailsResult> {
     const validatedArgs = GetMovieDetailsSchema.parse(args);
-    const movie: TMDBMovieDetails = await tmdbClient.getMovieDetails(validatedArgs.movie_id);
+    const { include } = validatedArgs;
+    const [movie, genreNames] = await Promise.all([
+        tmdbClient.getMovieDetails(
+            validatedArgs.movie_id,
+            toAppendToResponse(include, MOVIE_INCLUDES)
+        ),
+        // Similar movies only carry genre IDs
+        include.includes("similar") ? getGenreNames("movie", tmdbClient) : undefined,
+    ]);
 
     const formattedMovie = {
         id: movie.id,
@@ -133,30 +172,47 @@ export async function handleGetMovieDetails(
         vote_count: movie.vote_count,
         popularity: movie.popularity,
         genres: movie.genres,
+        collection: movie.belongs_to_collection
+            ? {
+                  id: movie.belongs_to_collection.id,
+                  name: movie.belongs_to_collection.name,
+              }
+            : null,
         production_companies: movie.production_companies,
         production_countries: movie.production_countries,
         spoken_languages: movie.spoken_languages,
-        poster_path: movie.poster_path
-            ? `https://image.tmdb.org/t/p/w500${movie.poster_path}`
-            : null,
-        backdrop_path: movie.backdrop_path
-            ? `https://image.tmdb.org/t/p/original${movie.backdrop_path}`
-            : null,
+        poster_path: buildImageUrl(movie.poster_path, "poster"),
+        backdrop_path: buildImageUrl(movie.backdrop_path, "backdrop"),
     };
 
-    return JSON.stringify(formattedMovie, null, 2);
+    return {
+        ...formattedMovie,
+        credits: movie.credits && formatMovieCredits(movie.credits),
+        ...formatIncludedSections(movie, tmdbClient.getLocale()),
+        similar:
+            movie.similar &&
+            genreNames &&
+            movie.similar.results
+                .slice(0, INCLUDE_LIMIT)
+                .map((similar: TMDBMovie) => formatMovieSearchResult(similar, genreNames)),
+    };
 }
 
 /**
  * Zod schema for discover_movies tool
  */
 export const DiscoverMoviesSchema = z.object({
-    with_genres: z
+    with_genres: z.string().optional().describe(GENRE_FILTER_DESCRIPTION),
+    without_genres: z
         .string()
         .optional()
-        .describe(
-            "Genre IDs comma-separated (28=Action, 12=Adventure, 16=Animation, 35=Comedy, 80=Crime, 99=Documentary, 18=Drama, 10751=Family, 14=Fantasy, 36=History, 27=Horror, 10402=Music, 9648=Mystery, 10749=Romance, 878=Science Fiction, 10770=TV Movie, 53=Thriller, 10752=War, 37=Western)"
-        ),
+        .describe("Genre names or IDs to exclude, comma-separated (e.g. 'Horror,Animation')"),
+    with_keywords: z.string().optional().describe(KEYWORD_FILTER_DESCRIPTION),
+    without_keywords: z
+        .string()
+        .optional()
+        .describe("Keyword names or IDs to exclude, comma-separated (e.g. 'remake,sequel')"),
+    with_companies: z.string().optional().describe(COMPANY_FILTER_DESCRIPTION),
     with_original_language: z
         .string()
         .optional()
@@ -221,78 +277,43 @@ export const GetRecommendationsSchema = z.object({
 /**
  * Tool definition for discover_movies
  */
-export const discoverMoviesTool = {
+export const discoverMoviesTool = defineTool({
     name: "discover_movies",
     description:
-        "Discover movies with advanced filters including genre, language, year range, rating, and sorting. Perfect for finding movies that match specific criteria like 'Japanese sci-fi movies from 2020 onwards with rating above 7' or 'Korean dramas with high ratings'.",
-    inputSchema: {
-        type: "object",
-        properties: {
-            with_genres: {
-                type: "string",
-                description:
-                    "Genre IDs comma-separated (28=Action, 12=Adventure, 16=Animation, 35=Comedy, 80=Crime, 99=Documentary, 18=Drama, 10751=Family, 14=Fantasy, 36=History, 27=Horror, 10402=Music, 9648=Mystery, 10749=Romance, 878=Science Fiction, 10770=TV Movie, 53=Thriller, 10752=War, 37=Western)",
-            },
-            with_original_language: {
-                type: "string",
-                description:
-                    "Filter by original language using ISO 639-1 codes. Single language (e.g., 'ja') or comma-separated for multiple (e.g., 'ja,ko,zh')",
-            },
-            min_year: {
-                type: "number",
-                description: "Minimum release year (e.g., 2020 for movies from 2020 onwards)",
-            },
-            max_year: {
-                type: "number",
-                description: "Maximum release year (e.g., 2023 for movies up to 2023)",
-            },
-            min_rating: {
-                type: "number",
-                description: "Minimum vote average (0-10)",
-            },
-            max_rating: {
-                type: "number",
-                description: "Maximum vote average (0-10)",
-            },
-            min_vote_count: {
-                type: "number",
-                description: "Minimum number of votes (helps filter reliable ratings)",
-            },
-            sort_by: {
-                type: "string",
-                description:
-                    "Sort order (popularity.desc, popularity.asc, vote_average.desc, vote_average.asc, release_date.desc, release_date.asc)",
-            },
-            page: {
-                type: "number",
-                description: "Page number (default: 1)",
-            },
-        },
-    },
-};
+        "Discover movies with advanced filters including genre, language, year range, rating, production company, and sorting. Perfect for finding movies that match specific criteria like 'Japanese sci-fi movies from 2020 onwards with rating above 7', 'Korean dramas with high ratings' or 'recent A24 releases'.",
+    schema: DiscoverMoviesSchema,
+    outputSchema: DiscoverMoviesResultSchema,
+    handler: handleDiscoverMovies,
+});
 
 /**
  * Tool definition for get_recommendations
  */
-export const getRecommendationsTool = {
+export const getRecommendationsTool = defineTool({
     name: "get_recommendations",
     description:
         "Get movie recommendations based on a specific movie. Returns similar movies that users who liked the given movie also enjoyed. Great for 'If you liked X, try Y' suggestions.",
-    inputSchema: {
-        type: "object",
-        properties: {
-            movie_id: {
-                type: "number",
-                description: "TMDB movie ID to base recommendations on",
-            },
-            page: {
-                type: "number",
-                description: "Page number for pagination (default: 1)",
-            },
-        },
-        required: ["movie_id"],
-    },
-};
+    schema: GetRecommendationsSchema,
+    outputSchema: MovieRecommendationsResultSchema,
+    handler: handleGetRecommendations,
+});
+
+/**
+ * Format a movie in discover results or recommendations
+ */
+function formatMovieListItem(movie: TMDBMovie, genreNames: GenreNames): MovieListItem {
+    return {
+        id: movie.id,
+        title: movie.title,
+        release_date: movie.release_date,
+        genres: formatGenres(movie.genre_ids, genreNames),
+        overview: movie.overview,
+        vote_average: movie.vote_average,
+        vote_count: movie.vote_count,
+        popularity: movie.popularity,
+        poster_path: buildImageUrl(movie.poster_path, "poster"),
+    };
+}
 
 /**
  * Handler for discover_movies tool
@@ -300,11 +321,25 @@ export const getRecommendationsTool = {
 export async function handleDiscoverMovies(
     args: z.infer<typeof DiscoverMoviesSchema>,
     tmdbClient: TMDBClient
-): Promise<string> {
+): Promise<DiscoverMoviesResult> {
     const validatedArgs = DiscoverMoviesSchema.parse(args);
 
+    const [withGenres, withoutGenres, withKeywords, withoutKeywords, withCompanies, genreNames] =
+        await Promise.all([
+            resolveGenreFilter(validatedArgs.with_genres, "movie", tmdbClient),
+            resolveGenreFilter(validatedArgs.without_genres, "movie", tmdbClient),
+            resolveKeywordFilter(validatedArgs.with_keywords, tmdbClient),
+            resolveKeywordFilter(validatedArgs.without_keywords, tmdbClient),
+            resolveCompanyFilter(validatedArgs.with_companies, tmdbClient),
+            getGenreNames("movie", tmdbClient),
+        ]);
+
     const result = await tmdbClient.discoverMovies({
-        with_genres: validatedArgs.with_genres,
+        with_genres: withGenres?.ids,
+        without_genres: withoutGenres?.ids,
+        with_keywords: withKeywords?.ids,
+        without_keywords: withoutKeywords?.ids,
+        with_companies: withCompanies?.ids,
         with_original_language: validatedArgs.with_original_language,
         "primary_release_date.gte": validatedArgs.min_year
             ? `${validatedArgs.min_year}-01-01`
@@ -319,39 +354,30 @@ export async function handleDiscoverMovies(
         page: validatedArgs.page,
     });
 
-    const formattedResults = result.results.map((movie: TMDBMovie) => ({
-        id: movie.id,
-        title: movie.title,
-        release_date: movie.release_date,
-        overview: movie.overview,
-        vote_average: movie.vote_average,
-        vote_count: movie.vote_count,
-        popularity: movie.popularity,
-        poster_path: movie.poster_path
-            ? `https://image.tmdb.org/t/p/w500${movie.poster_path}`
-            : null,
-    }));
+    const formattedResults = result.results.map((movie: TMDBMovie) =>
+        formatMovieListItem(movie, genreNames)
+    );
 
-    return JSON.stringify(
-        {
-            page: result.page,
-            total_results: result.total_results,
-            total_pages: result.total_pages,
-            filters_applied: {
-                genres: validatedArgs.with_genres,
-                original_language: validatedArgs.with_original_language,
-                min_year: validatedArgs.min_year,
-                max_year: validatedArgs.max_year,
-                min_rating: validatedArgs.min_rating,
-                max_rating: validatedArgs.max_rating,
-                min_vote_count: validatedArgs.min_vote_count,
-                sort_by: validatedArgs.sort_by,
-            },
-            results: formattedResults,
+    return {
+        page: result.page,
+        total_results: result.total_results,
+        total_pages: result.total_pages,
+        filters_applied: {
+            with_genres: withGenres?.genres,
+            without_genres: withoutGenres?.genres,
+            with_keywords: withKeywords?.keywords,
+            without_keywords: withoutKeywords?.keywords,
+            with_companies: withCompanies?.companies,
+            original_language: validatedArgs.with_original_language,
+            min_year: validatedArgs.min_year,
+            max_year: validatedArgs.max_year,
+            min_rating: validatedArgs.min_rating,
+            max_rating: validatedArgs.max_rating,
+            min_vote_count: validatedArgs.min_vote_count,
+            sort_by: validatedArgs.sort_by,
         },
-        null,
-        2
-    );
+        results: formattedResults,
+    };
 }
 
 /**
@@ -360,38 +386,25 @@ export async function handleDiscoverMovies(
 export async function handleGetRecommendations(
     args: z.infer<typeof GetRecommendationsSchema>,
     tmdbClient: TMDBClient
-): Promise<string> {
+): Promise<MovieRecommendationsResult> {
     const validatedArgs = GetRecommendationsSchema.parse(args);
 
-    const result = await tmdbClient.getMovieRecommendations(
-        validatedArgs.movie_id,
-        validatedArgs.page
-    );
-
-    const formattedResults = result.results.map((movie: TMDBMovie) => ({
-        id: movie.id,
-        title: movie.title,
-        release_date: movie.release_date,
-        overview: movie.overview,
-        vote_average: movie.vote_average,
-        vote_count: movie.vote_count,
-        popularity: movie.popularity,
-        poster_path: movie.poster_path
-            ? `https://image.tmdb.org/t/p/w500${movie.poster_path}`
-            : null,
-    }));
+    const [result, genreNames] = await Promise.all([
+        tmdbClient.getMovieRecommendations(validatedArgs.movie_id, validatedArgs.page),
+        getGenreNames("movie", tmdbClient),
+    ]);
 
-    return JSON.stringify(
-        {
-            based_on_movie_id: validatedArgs.movie_id,
-            page: result.page,
-            total_results: result.total_results,
-            total_pages: result.total_pages,
-            recommendations: formattedResults,
-        },
-        null,
-        2
+    const formattedResults = result.results.map((movie: TMDBMovie) =>
+        formatMovieListItem(movie, genreNames)
     );
+
+    return {
+        based_on_movie_id: validatedArgs.movie_id,
+        page: result.page,
+        total_results: result.total_results,
+        total_pages: result.total_pages,
+        recommendations: formattedResults,
+    };
 }
 
 /**
@@ -425,47 +438,26 @@ export const GetMovieCreditsSchema = z.object({
 /**
  * Tool definition for get_trending
  */
-export const getTrendingTool = {
+export const getTrendingTool = defineTool({
     name: "get_trending",
     description:
         "Get daily or weekly trending movies, TV shows, or people. Returns what's currently popular on TMDB based on user activity.",
-    inputSchema: {
-        type: "object",
-        properties: {
-            media_type: {
-                type: "string",
-                description: "Content type: all, movie, tv, or person (default: all)",
-            },
-            time_window: {
-                type: "string",
-                description: "Time period: day or week (default: week)",
-            },
-            page: {
-                type: "number",
-                description: "Page number for paginated results (default: 1)",
-            },
-        },
-    },
-};
+    schema: GetTrendingSchema,
+    outputSchema: TrendingResultSchema,
+    handler: handleGetTrending,
+});
 
 /**
  * Tool definition for get_movie_credits
  */
-export const getMovieCreditsTool = {
+export const getMovieCreditsTool = defineTool({
     name: "get_movie_credits",
     description:
         "Get cast and crew information for a specific movie. Returns actors with their characters and crew members with their roles/departments.",
-    inputSchema: {
-        type: "object",
-        properties: {
-            movie_id: {
-                type: "number",
-                description: "TMDB movie ID",
-            },
-        },
-        required: ["movie_id"],
-    },
-};
+    schema: GetMovieCreditsSchema,
+    outputSchema: MovieCreditsResultSchema,
+    handler: handleGetMovieCredits,
+});
 
 /**
  * Handler for get_trending tool
@@ -473,100 +465,114 @@ export const getMovieCreditsTool = {
 export async function handleGetTrending(
     args: z.infer<typeof GetTrendingSchema>,
     tmdbClient: TMDBClient
-): Promise<string> {
+): Promise<TrendingResult> {
     const validatedArgs = GetTrendingSchema.parse(args);
 
-    const result = await tmdbClient.getTrending(
-        validatedArgs.media_type,
-        validatedArgs.time_window,
-        validatedArgs.page
-    );
-
-    const formattedResults = result.results.map((item: any) => {
-        const base = {
-            id: item.id,
-            media_type: item.media_type,
-            popularity: item.popularity,
-            vote_average: item.vote_average,
-        };
-
-        if (item.media_type === "movie") {
-            return {
-                ...base,
-                title: item.title,
-                release_date: item.release_date,
-                overview: item.overview,
-            };
-        } else if (item.media_type === "tv") {
-            return {
-                ...base,
-                name: item.name,
-                first_air_date: item.first_air_date,
-                overview: item.overview,
-            };
-        } else {
-            // person
-            return {
-                ...base,
-                name: item.name,
-                known_for_department: item.known_for_department,
-            };
+    const [result, movieGenres, tvGenres] = await Promise.all([
+        tmdbClient.getTrending(
+            validatedArgs.media_type,
+            validatedArgs.time_window,
+            validatedArgs.page
+        ),
+        getGenreNames("movie", tmdbClient),
+        getGenreNames("tv", tmdbClient),
+    ]);
+
+    const formattedResults = result.results.map((item: TMDBTrendingItem): TrendingItem => {
+        const base = { id: item.id, popularity: item.popularity };
+
+        switch (item.media_type) {
+            case "movie":
+                return {
+                    ...base,
+                    media_type: item.media_type,
+                    vote_average: item.vote_average,
+                    title: item.title,
+                    release_date: item.release_date,
+                    genres: formatGenres(item.genre_ids, movieGenres),
+                    overview: item.overview,
+                };
+            case "tv":
+                return {
+                    ...base,
+                    media_type: item.media_type,
+                    vote_average: item.vote_average,
+                    name: item.name,
+                    first_air_date: item.first_air_date,
+                    genres: formatGenres(item.genre_ids, tvGenres),
+                    overview: item.overview,
+                };
+            case "person":
+                return {
+                    ...base,
+                    media_type: item.media_type,
+                    name: item.name,
+                    known_for_department: item.known_for_department,
+                };
         }
     });
 
-    return JSON.stringify(
-        {
-            media_type: validatedArgs.media_type,
-            time_window: validatedArgs.time_window,
-            page: result.page,
-            total_results: result.total_results,
-            total_pages: result.total_pages,
-            results: formattedResults,
-        },
-        null,
-        2
-    );
+    return {
+        media_type: validatedArgs.media_type,
+        time_window: validatedArgs.time_window,
+        page: result.page,
+        total_results: result.total_results,
+        total_pages: result.total_pages,
+        results: formattedResults,
+    };
 }
 
 /**
- * Handler for get_movie_credits tool
+ * Format the top 20 cast members and key crew
+ * Shared by get_movie_credits and get_movie_details
  */
-export async function handleGetMovieCredits(
-    args: z.infer<typeof GetMovieCreditsSchema>,
-    tmdbClient: TMDBClient
-): Promise<string> {
-    const validatedArgs = GetMovieCreditsSchema.parse(args);
-    const credits = await tmdbClient.getMovieCredits(validatedArgs.movie_id);
-
-    // Format and return top 20 cast members and key crew
-    const formattedCast = credits.cast.slice(0, 20).map((member: any) => ({
+function formatMovieCredits(credits: Pick<TMDBCreditsResponse, "cast" | "crew">): Credits {
+    const formattedCast = credits.cast.slice(0, 20).map((member: TMDBCastMember) => ({
         id: member.id,
         name: member.name,
         character: member.character,
         order: member.order,
-        profile_path: member.profile_path
-            ? `https://image.tmdb.org/t/p/w185${member.profile_path}`
-            : null,
+        profile_path: buildImageUrl(member.profile_path, "profile"),
     }));
 
     // Filter crew to key roles: Directors, Producers, Writers
     const keyJobs = ["Director", "Producer", "Writer", "Screenplay", "Story", "Executive Producer"];
     const formattedCrew = credits.crew
-        .filter((member: any) => keyJobs.includes(member.job))
-        .map((member: any) => ({
+        .filter((member: TMDBCrewMember) => keyJobs.includes(member.job))
+        .map((member: TMDBCrewMember) => ({
             id: member.id,
             name: member.name,
             job: member.job,
             department: member.department,
         }));
 
-    return JSON.stringify(
-        {
-            movie_id: credits.id,
-            cast: formattedCast,
-            crew: formattedCrew,
-        },
-        null,
-        2
-    );
+    return { cast: formattedCast, crew: formattedCrew };
+}
+
+/**
+ * Handler for get_movie_credits tool
+ */
+export async function handleGetMovieCredits(
+    args: z.infer<typeof GetMovieCreditsSchema>,
+    tmdbClient: TMDBClient
+): Promise<MovieCreditsResult> {
+    const validatedArgs = GetMovieCreditsSchema.parse(args);
+    const credits = await tmdbClient.getMovieCredits(validatedArgs.movie_id);
+
+    return {
+        movie_id: credits.id,
+        ...formatMovieCredits(credits),
+    };
 }
+
+/**
+ * Movie tools registered with the server
+ */
+export const movieTools: ToolDefinition[] = [
+    searchMoviesTool,
+    getMovieDetailsTool,
+    discoverMoviesTool,
+    getRecommendationsTool,
+    getTrendingTool,
+    getMovieCreditsTool,
+];
@@ -4,7 +4,34 @@
 
 import { z } from "zod";
 import { TMDBClient } from "../utils/tmdb-client.js";
-import type { TMDBPerson } from "../types/tmdb.js";
+import { buildImageUrl } from "../utils/images.js";
+import { defineTool, type ToolDefinition } from "./registry.js";
+import {
+    INCLUDE_LIMIT,
+    PERSON_INCLUDES,
+    formatIncludedSections,
+    includeSchema,
+    toAppendToResponse,
+} from "./includes.js";
+import type {
+    TMDBKnownFor,
+    TMDBPerson,
+    TMDBPersonCastCredit,
+    TMDBPersonCreditsResponse,
+    TMDBPersonCrewCredit,
+} from "../types/tmdb.js";
+import {
+    PersonCreditsResultSchema,
+    PersonDetailsResultSchema,
+    SearchPeopleResultSchema,
+    type PersonCastCredit,
+    type PersonCreditTitle,
+    type PersonCreditsResult,
+    type PersonCrewCredit,
+    type PersonDetailsResult,
+    type PersonSummary,
+    type SearchPeopleResult,
+} from "../types/results.js";
 
 /**
  * Zod schema for search_people tool
@@ -23,62 +50,53 @@ export const SearchPeopleSchema = z.object({
 /**
  * Tool definition for search_people
  */
-export const searchPeopleTool = {
+export const searchPeopleTool = defineTool({
     name: "search_people",
     description:
         "Search for people (actors, directors, producers, crew) by name. Returns basic info including profile photo, known for department, and movies/TV shows they're known for.",
-    inputSchema: {
-        type: "object",
-        properties: {
-            query: {
-                type: "string",
-                description: "Person name to search for",
-            },
-            page: {
-                type: "number",
-                description: "Page number for paginated results (default: 1)",
-            },
-        },
-        required: ["query"],
-    },
-};
+    schema: SearchPeopleSchema,
+    outputSchema: SearchPeopleResultSchema,
+    handler: handleSearchPeople,
+});
 
 /**
- * Handler for search_people tool
+ * Format a person search result
+ * Shared by search_people and search_all
  */
-export async function handleSearchPeople(
-    args: z.infer<typeof SearchPeopleSchema>,
-    tmdbClient: TMDBClient
-): Promise<string> {
-    const validatedArgs = SearchPeopleSchema.parse(args);
-    const result = await tmdbClient.searchPeople(validatedArgs.query, validatedArgs.page);
-
-    const formattedResults = result.results.map((person: TMDBPerson) => ({
+export function formatPersonSearchResult(person: TMDBPerson): PersonSummary {
+    return {
         id: person.id,
         name: person.name,
         known_for_department: person.known_for_department,
         popularity: person.popularity,
-        profile_path: person.profile_path
-            ? `https://image.tmdb.org/t/p/w185${person.profile_path}`
-            : null,
-        known_for: person.known_for?.map((item: any) => ({
+        profile_path: buildImageUrl(person.profile_path, "profile"),
+        known_for: person.known_for?.map((item: TMDBKnownFor) => ({
             id: item.id,
-            title: item.title || item.name,
+            title: item.media_type === "movie" ? item.title : item.name,
             media_type: item.media_type,
             vote_average: item.vote_average,
         })),
-    }));
-
-    return JSON.stringify(
-        {
-            page: result.page,
-            total_results: result.total_results,
-            total_pages: result.total_pages,
-            results: formattedResults,
-        },
-        null,
-        2
-    );
+    };
+}
+
+/**
+ * Handler for search_people tool
+ */
+export async function handleSearchPeople(
+    args: z.infer<typeof SearchPeopleSchema>,
+    tmdbClient: TMDBClient
+): Promise<SearchPeopleResult> {
+    const validatedArgs = SearchPeopleSchema.parse(args);
+    const result = await tmdbClient.searchPeople(validatedArgs.query, validatedArgs.page);
+
+    const formattedResults = result.results.map(formatPersonSearchResult);
+
+    return {
+        page: result.page,
+        total_results: result.total_results,
+        total_pages: result.total_pages,
+        results: formattedResults,
+    };
 }
 
 /**
@@ -86,26 +104,20 @@ export async function handleSearchPeople(
  */
 export const GetPersonDetailsSchema = z.object({
     person_id: z.number().int().positive().describe("TMDB person ID"),
+    include: includeSchema(PERSON_INCLUDES),
 });
 
 /**
  * Tool definition for get_person_details
  */
-export const getPersonDetailsTool = {
+export const getPersonDetailsTool = defineTool({
     name: "get_person_details",
     description:
-        "Get detailed biographical information about a person (actor, director, crew member). Returns full biography, birth info, death date (if applicable), IMDb ID, homepage, and more.",
-    inputSchema: {
-        type: "object",
-        properties: {
-            person_id: {
-                type: "number",
-                description: "TMDB person ID",
-            },
-        },
-        required: ["person_id"],
-    },
-};
+        "Get detailed biographical information about a person (actor, director, crew member). Returns full biography, birth info, death date (if applicable), IMDb ID, homepage, and more. Pass include to add their best-known credits, images or external IDs in the same request.",
+    schema: GetPersonDetailsSchema,
+    outputSchema: PersonDetailsResultSchema,
+    handler: handleGetPersonDetails,
+});
 
 /**
  * Handler for get_person_details tool
@@ -113,9 +125,19 @@ export const getPersonDetailsTool = {
 export async function handleGetPersonDetails(
     args: z.infer<typeof GetPersonDetailsSchema>,
     tmdbClient: TMDBClient
-): Promise<string> {
+): Promise<PersonDetailsResult> {
     const validatedArgs = GetPersonDetailsSchema.parse(args);
-    const person = await tmdbClient.getPersonDetails(validatedArgs.person_id);
+    const person = await tmdbClient.getPersonDetails(
+        validatedArgs.person_id,
+        toAppendToResponse(validatedArgs.include, PERSON_INCLUDES)
+    );
+    const credits =
+        person.combined_credits &&
+        mergeCredits(person.combined_credits, {
+            creditSet: "combined",
+            includeCast: true,
+            includeCrew: true,
+        });
 
     const formattedPerson = {
         id: person.id,
@@ -129,10 +151,229 @@ export async function handleGetPersonDetails(
         popularity: person.popularity,
         homepage: person.homepage,
         imdb_id: person.imdb_id,
-        profile_path: person.profile_path
-            ? `https://image.tmdb.org/t/p/h632${person.profile_path}`
-            : null,
+        profile_path: buildImageUrl(person.profile_path, "profile"),
     };
 
-    return JSON.stringify(formattedPerson, null, 2);
+    return {
+        ...formattedPerson,
+        // Most popular titles first
+        credits: credits && {
+            total_cast: credits.cast.length,
+            total_crew: credits.crew.length,
+            cast: sortCredits(credits.cast, "popularity.desc").slice(0, INCLUDE_LIMIT),
+            crew: sortCredits(credits.crew, "popularity.desc").slice(0, INCLUDE_LIMIT),
+        },
+        ...formatIncludedSections(person, tmdbClient.getLocale()),
+    };
 }
+
+/**
+ * Zod schema for get_person_credits tool
+ */
+export const GetPersonCreditsSchema = z.object({
+    person_id: z.number().int().positive().describe("TMDB person ID"),
+    media_type: z
+        .enum(["all", "movie", "tv"])
+        .optional()
+        .default("all")
+        .describe("Only include movie or TV credits (default: all)"),
+    credit_type: z
+        .enum(["all", "cast", "crew"])
+        .optional()
+        .default("all")
+        .describe("Only include acting (cast) or behind-the-camera (crew) credits (default: all)"),
+    department: z
+        .string()
+        .optional()
+        .describe(
+            "Only include credits in this department, case-insensitive (e.g. 'Directing', 'Writing', 'Production', 'Acting')"
+        ),
+    job: z
+        .string()
+        .optional()
+        .describe(
+            "Only include crew credits with this job, case-insensitive (e.g. 'Director', 'Screenplay', 'Producer')"
+        ),
+    sort_by: z
+        .enum(["date.desc", "date.asc", "rating.desc", "popularity.desc"])
+        .optional()
+        .default("date.desc")
+        .describe(
+            "Sort order: newest first, oldest first, highest rated, or most popular (default: date.desc)"
+        ),
+});
+
+/**
+ * Tool definition for get_person_credits
+ */
+export const getPersonCreditsTool = defineTool({
+    name: "get_person_credits",
+    description:
+        "Get a person's full filmography across movies and TV. Returns acting roles and crew jobs with release dates and ratings. Filter by media type, department or job (e.g. every film someone directed) and sort by date, rating or popularity. Multiple jobs on the same title are merged into one entry.",
+    schema: GetPersonCreditsSchema,
+    outputSchema: PersonCreditsResultSchema,
+    handler: handleGetPersonCredits,
+});
+
+type PersonCredit = TMDBPersonCastCredit | TMDBPersonCrewCredit;
+type CreditMediaType = "movie" | "tv";
+
+/**
+ * Fields shared by formatted cast and crew credits
+ */
+function formatCreditTitle(credit: PersonCredit, mediaType: CreditMediaType): PersonCreditTitle {
+    return {
+        id: credit.id,
+        media_type: mediaType,
+        title: credit.title || credit.name,
+        release_date: (mediaType === "movie" ? credit.release_date : credit.first_air_date) || null,
+        vote_average: credit.vote_average,
+        vote_count: credit.vote_count,
+        popularity: credit.popularity,
+    };
+}
+
+/**
+ * Sort formatted credits; titles without a date always sort last
+ */
+function sortCredits<T extends PersonCreditTitle>(
+    credits: T[],
+    sortBy: z.infer<typeof GetPersonCreditsSchema>["sort_by"]
+): T[] {
+    return [...credits].sort((a, b) => {
+        switch (sortBy) {
+            case "rating.desc":
+                return b.vote_average - a.vote_average || b.vote_count - a.vote_count;
+            case "popularity.desc":
+                return b.popularity - a.popularity;
+            default: {
+                if (!a.release_date || !b.release_date) {
+                    return a.release_date ? -1 : b.release_date ? 1 : 0;
+                }
+                const order = a.release_date.localeCompare(b.release_date);
+                return sortBy === "date.asc" ? order : -order;
+            }
+        }
+    });
+}
+
+/**
+ * Merge a person's credits into one entry per title, keeping crew credits in the
+ * given department and job (both lowercase)
+ */
+function mergeCredits(
+    credits: Pick<TMDBPersonCreditsResponse, "cast" | "crew">,
+    options: {
+        creditSet: "combined" | CreditMediaType;
+        includeCast: boolean;
+        includeCrew: boolean;
+        department?: string;
+        job?: string;
+    }
+): { cast: PersonCastCredit[]; crew: PersonCrewCredit[] } {
+    const { creditSet, includeCast, includeCrew, department, job } = options;
+    const mediaTypeOf = (credit: PersonCredit): CreditMediaType =>
+        credit.media_type ?? (creditSet === "tv" ? "tv" : "movie");
+
+    // Merge multiple characters on the same title into one entry
+    const castByTitle = new Map<string, PersonCastCredit>();
+    for (const credit of includeCast ? credits.cast : []) {
+        const mediaType = mediaTypeOf(credit);
+        const key = `${mediaType}:${credit.id}`;
+        const existing = castByTitle.get(key);
+        if (existing) {
+            if (credit.character && !existing.characters.includes(credit.character)) {
+                existing.characters.push(credit.character);
+            }
+            continue;
+        }
+        castByTitle.set(key, {
+            ...formatCreditTitle(credit, mediaType),
+            characters: credit.character ? [credit.character] : [],
+            episode_count: credit.episode_count,
+        });
+    }
+
+    // Merge multiple jobs on the same title (e.g. Director + Screenplay) into one entry
+    const crewByTitle = new Map<string, PersonCrewCredit>();
+    for (const credit of includeCrew ? credits.crew : []) {
+        if (department && credit.department.toLowerCase() !== department) continue;
+        if (job && credit.job.toLowerCase() !== job) continue;
+
+        const mediaType = mediaTypeOf(credit);
+        const key = `${mediaType}:${credit.id}`;
+        const existing = crewByTitle.get(key);
+        if (existing) {
+            if (!existing.jobs.includes(credit.job)) existing.jobs.push(credit.job);
+            if (!existing.departments.includes(credit.department)) {
+                existing.departments.push(credit.department);
+            }
+            if (credit.episode_count && credit.episode_count > (existing.episode_count ?? 0)) {
+                existing.episode_count = credit.episode_count;
+            }
+            continue;
+        }
+        crewByTitle.set(key, {
+            ...formatCreditTitle(credit, mediaType),
+            jobs: [credit.job],
+            departments: [credit.department],
+            episode_count: credit.episode_count,
+        });
+    }
+
+    return { cast: [...castByTitle.values()], crew: [...crewByTitle.values()] };
+}
+
+/**
+ * Handler for get_person_credits tool
+ */
+export async function handleGetPersonCredits(
+    args: z.infer<typeof GetPersonCreditsSchema>,
+    tmdbClient: TMDBClient
+): Promise<PersonCreditsResult> {
+    const validatedArgs = GetPersonCreditsSchema.parse(args);
+    const creditSet = validatedArgs.media_type === "all" ? "combined" : validatedArgs.media_type;
+    const credits = await tmdbClient.getPersonCredits(validatedArgs.person_id, creditSet);
+
+    const department = validatedArgs.department?.toLowerCase();
+    const job = validatedArgs.job?.toLowerCase();
+
+    // Cast credits belong to the Acting department and have no job
+    const merged = mergeCredits(credits, {
+        creditSet,
+        includeCast:
+            validatedArgs.credit_type !== "crew" &&
+            !job &&
+            (!department || department === "acting"),
+        includeCrew: validatedArgs.credit_type !== "cast",
+        department,
+        job,
+    });
+
+    const cast = sortCredits(merged.cast, validatedArgs.sort_by);
+    const crew = sortCredits(merged.crew, validatedArgs.sort_by);
+
+    return {
+        person_id: credits.id,
+        filters_applied: {
+            media_type: validatedArgs.media_type,
+            credit_type: validatedArgs.credit_type,
+            department: validatedArgs.department,
+            job: validatedArgs.job,
+            sort_by: validatedArgs.sort_by,
+        },
+        total_cast: cast.length,
+        total_crew: crew.length,
+        cast,
+        crew,
+    };
+}
+
+/**
+ * People tools registered with the server
+ */
+export const peopleTools: ToolDefinition[] = [
+    searchPeopleTool,
+    getPersonDetailsTool,
+    getPersonCreditsTool,
+];
@@ -0,0 +1,177 @@
+/**
+ * Declarative tool registry
+ * Each tool declares its name, description, input and output Zod schemas and handler in
+ * one place; the JSON Schemas advertised to MCP clients are generated from the Zod schemas.
+ * Every tool also accepts per-call language and region arguments (see LocaleSchema) and
+ * output format and field selection arguments (see OutputOptionsSchema).
+ */
+
+import { z } from "zod";
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { TMDBClient, type TMDBLocale } from "../utils/tmdb-client.js";
+import { OUTPUT_FORMATS, renderResult, selectFields } from "../utils/output-format.js";
+
+export interface ToolDefinition<
+    S extends z.ZodObject = z.ZodObject,
+    O extends z.ZodObject = z.ZodObject,
+> {
+    name: string;
+    description: string;
+    schema: S;
+    // Result shape, from src/types/results.ts
+    outputSchema: O;
+    handler(args: z.infer<S>, tmdbClient: TMDBClient): Promise<z.infer<O>>;
+}
+
+/**
+ * Tool result as structured content with its text rendering
+ */
+export interface ToolResult {
+    text: string;
+    structuredContent: Record<string, unknown>;
+}
+
+/**
+ * Per-call locale arguments added to every tool, overriding the server defaults
+ * Tools that declare their own language or region argument keep their meaning for it
+ */
+export const LocaleSchema = z.object({
+    language: z
+        .string()
+        .regex(
+            /^[a-z]{2}(-[A-Z]{2})?$/,
+            "Language must be an ISO 639-1 code, optionally with a region (e.g. 'de' or 'pt-BR')"
+        )
+        .optional()
+        .describe(
+            "Language for titles and overviews, e.g. 'de' or 'pt-BR'. Untranslated overviews fall back to English (default: server setting)"
+        ),
+    region: z
+        .string()
+        .regex(/^[A-Za-z]{2}$/, "Region must be a two-letter ISO 3166-1 code")
+        .toUpperCase()
+        .optional()
+        .describe(
+            "ISO 3166-1 country code for release dates and regional results, e.g. 'GB' (default: server setting)"
+        ),
+});
+
+/**
+ * Per-call output arguments added to every tool
+ * They shape the text content only; structuredContent always holds the full result, so it
+ * matches the advertised output schema
+ */
+export const OutputOptionsSchema = z.object({
+    format: z
+        .enum(OUTPUT_FORMATS)
+        .optional()
+        .describe(
+            "Text output format: json (full result), compact (JSON without image paths or empty values, long text cut) or markdown (tables for lists, sections for details, without image paths) (default: server setting)"
+        ),
+    fields: z
+        .array(z.string().min(1))
+        .min(1)
+        .optional()
+        .describe(
+            "Only return these properties, with dot paths for nested ones, e.g. ['total_results', 'results.title', 'results.release_date'] (default: all)"
+        ),
+});
+
+type LocaleKey = keyof TMDBLocale;
+
+/**
+ * A tool with its schema extended by the locale arguments it does not declare itself
+ */
+interface RegisteredTool {
+    definition: ToolDefinition;
+    schema: z.ZodObject;
+    localeKeys: LocaleKey[];
+}
+
+/**
+ * Define a tool, inferring handler argument and result types from its schemas
+ */
+export function defineTool<S extends z.ZodObject, O extends z.ZodObject>(
+    tool: ToolDefinition<S, O>
+): ToolDefinition<S, O> {
+    return tool;
+}
+
+/**
+ * Convert a tool definition to the MCP tool listing format
+ */
+function toMCPTool({ definition, schema }: RegisteredTool): Tool {
+    // Input mode keeps defaulted fields optional, matching what callers may omit
+    const { $schema: _, ...inputSchema } = z.toJSONSchema(schema, { io: "input" });
+    // Shapes repeated within a result (image lists, provider offers) are listed once in $defs
+    const { $schema: __, ...outputSchema } = z.toJSONSchema(definition.outputSchema, {
+        io: "output",
+        reused: "ref",
+    });
+
+    return {
+        name: definition.name,
+        description: definition.description,
+        inputSchema: inputSchema as Tool["inputSchema"],
+        outputSchema: outputSchema as Tool["outputSchema"],
+    };
+}
+
+export class ToolRegistry {
+    private readonly tools = new Map<string, RegisteredTool>();
+
+    constructor(tools: ToolDefinition[]) {
+        for (const tool of tools) {
+            if (this.tools.has(tool.name)) {
+                throw new Error(`Duplicate tool name: ${tool.name}`);
+            }
+
+            const localeKeys = (Object.keys(LocaleSchema.shape) as LocaleKey[]).filter(
+                (key) => !(key in tool.schema.shape)
+            );
+            const schema = tool.schema
+                .extend(Object.fromEntries(localeKeys.map((key) => [key, LocaleSchema.shape[key]])))
+                .extend(OutputOptionsSchema.shape);
+            this.tools.set(tool.name, { definition: tool, schema, localeKeys });
+        }
+    }
+
+    /**
+     * List all tools in MCP format
+     */
+    list(): Tool[] {
+        return [...this.tools.values()].map(toMCPTool);
+    }
+
+    /**
+     * Validate arguments and run a tool by name, with a client scoped to the requested locale
+     * The result is checked against the tool's output schema, which also drops undeclared keys;
+     * the text rendering is limited to the selected fields
+     */
+    async call(name: string, args: unknown, tmdbClient: TMDBClient): Promise<ToolResult> {
+        const tool = this.tools.get(name);
+        if (!tool) {
+            throw new Error(`Unknown tool: ${name}`);
+        }
+
+        const validatedArgs = tool.schema.parse(args ?? {});
+        const { format, fields } = OutputOptionsSchema.parse(validatedArgs);
+        const unknownFields = (fields ?? []).filter(
+            (field) => !(field.split(".")[0] in tool.definition.outputSchema.shape)
+        );
+        if (unknownFields.length > 0) {
+            throw new Error(
+                `Unknown fields for ${name}: ${unknownFields.join(", ")}. Available: ${Object.keys(tool.definition.outputSchema.shape).join(", ")}`
+            );
+        }
+
+        const locale: TMDBLocale = Object.fromEntries(
+            tool.localeKeys.map((key) => [key, validatedArgs[key]])
+        );
+        const result = await tool.definition.handler(validatedArgs, tmdbClient.withLocale(locale));
+        const structuredContent = tool.definition.outputSchema.parse(result);
+        const selected = fields ? selectFields(structuredContent, fields) : structuredContent;
+
+        return { text: renderResult(selected, format), structuredContent };
+    }
+}
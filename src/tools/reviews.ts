@@ -0,0 +1,118 @@
+/**
+ * Review-related MCP tools
+ */
+
+import { z } from "zod";
+import { TMDBClient } from "../utils/tmdb-client.js";
+import { defineTool, type ToolDefinition } from "./registry.js";
+import type { TMDBReview } from "../types/tmdb.js";
+import { ReviewsResultSchema, type ReviewsResult } from "../types/results.js";
+
+/**
+ * Zod schema for get_reviews tool
+ */
+export const GetReviewsSchema = z.object({
+    media_type: z.enum(["movie", "tv"]).describe("Type of content: movie or tv"),
+    id: z.number().int().positive().describe("TMDB movie or TV show ID"),
+    max_content_length: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .default(1000)
+        .describe(
+            "Trim each review to at most this many characters; 0 returns full reviews (default: 1000)"
+        ),
+    page: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .default(1)
+        .describe("Page number for paginated results (default: 1)"),
+});
+
+/**
+ * Tool definition for get_reviews
+ */
+export const getReviewsTool = defineTool({
+    name: "get_reviews",
+    description:
+        "Get user reviews for a movie or TV show. Returns author, rating (if given), date and review text trimmed to a configurable length, plus the average rating across the page. Useful for summarizing how something was received.",
+    schema: GetReviewsSchema,
+    outputSchema: ReviewsResultSchema,
+    handler: handleGetReviews,
+});
+
+/**
+ * Trim text to maxLength characters at a word boundary
+ */
+function trimContent(content: string, maxLength: number): { text: string; truncated: boolean } {
+    const text = content.trim();
+    if (maxLength === 0 || text.length <= maxLength) {
+        return { text, truncated: false };
+    }
+
+    const cut = text.slice(0, maxLength);
+    const lastSpace = cut.lastIndexOf(" ");
+    // Only back up to a word boundary if it doesn't discard most of the text
+    const trimmed = lastSpace > maxLength * 0.8 ? cut.slice(0, lastSpace) : cut;
+
+    return { text: `${trimmed.trimEnd()}…`, truncated: true };
+}
+
+/**
+ * Handler for get_reviews tool
+ */
+export async function handleGetReviews(
+    args: z.infer<typeof GetReviewsSchema>,
+    tmdbClient: TMDBClient
+): Promise<ReviewsResult> {
+    const validatedArgs = GetReviewsSchema.parse(args);
+    const result = await tmdbClient.getReviews(
+        validatedArgs.media_type,
+        validatedArgs.id,
+        validatedArgs.page
+    );
+
+    const formattedReviews = result.results.map((review: TMDBReview) => {
+        const { text, truncated } = trimContent(review.content, validatedArgs.max_content_length);
+
+        return {
+            id: review.id,
+            author: review.author_details.name || review.author,
+            username: review.author_details.username,
+            rating: review.author_details.rating,
+            created_at: review.created_at,
+            updated_at: review.updated_at,
+            content: text,
+            content_length: review.content.length,
+            truncated,
+            url: review.url,
+        };
+    });
+
+    const ratings = formattedReviews
+        .map((review) => review.rating)
+        .filter((rating): rating is number => rating !== null);
+    // Average of the ratings given on this page only
+    const averageRating =
+        ratings.length > 0
+            ? Number((ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length).toFixed(1))
+            : null;
+
+    return {
+        media_type: validatedArgs.media_type,
+        id: validatedArgs.id,
+        page: result.page,
+        total_results: result.total_results,
+        total_pages: result.total_pages,
+        average_rating: averageRating,
+        reviews: formattedReviews,
+    };
+}
+
+/**
+ * Review tools registered with the server
+ */
+export const reviewTools: ToolDefinition[] = [getReviewsTool];
@@ -0,0 +1,102 @@
+/**
+ * Cross-type search MCP tools
+ */
+
+import { z } from "zod";
+import { TMDBClient } from "../utils/tmdb-client.js";
+import { defineTool, type ToolDefinition } from "./registry.js";
+import { formatMovieSearchResult } from "./movies.js";
+import { formatTVShowSearchResult } from "./tv.js";
+import { formatPersonSearchResult } from "./people.js";
+import { getGenreNames, type GenreNames } from "./genres.js";
+import type { TMDBMultiSearchResult } from "../types/tmdb.js";
+import { SearchAllResultSchema, type SearchAllResult } from "../types/results.js";
+
+/**
+ * Zod schema for search_all tool
+ */
+export const SearchAllSchema = z.object({
+    query: z.string().min(1).describe("Movie title, TV show name, or person name to search for"),
+    page: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .default(1)
+        .describe("Page number for paginated results (default: 1)"),
+});
+
+/**
+ * Tool definition for search_all
+ */
+export const searchAllTool = defineTool({
+    name: "search_all",
+    description:
+        "Search movies, TV shows and people at once. Use when it's unclear whether a name like 'Dune' or 'Sherlock' refers to a movie, a show or a person. Returns a single list ranked by relevance, each result tagged with its media_type and the same fields as search_movies, search_tv_shows or search_people.",
+    schema: SearchAllSchema,
+    outputSchema: SearchAllResultSchema,
+    handler: handleSearchAll,
+});
+
+/**
+ * Format a multi-search result with the matching per-type formatter
+ */
+function formatMultiSearchResult(
+    item: TMDBMultiSearchResult,
+    genreNames: Record<"movie" | "tv", GenreNames>
+): SearchAllResult["results"][number] {
+    switch (item.media_type) {
+        case "movie":
+            return {
+                media_type: item.media_type,
+                ...formatMovieSearchResult(item, genreNames.movie),
+            };
+        case "tv":
+            return {
+                media_type: item.media_type,
+                ...formatTVShowSearchResult(item, genreNames.tv),
+            };
+        case "person":
+            return { media_type: item.media_type, ...formatPersonSearchResult(item) };
+    }
+}
+
+/**
+ * Handler for search_all tool
+ */
+export async function handleSearchAll(
+    args: z.infer<typeof SearchAllSchema>,
+    tmdbClient: TMDBClient
+): Promise<SearchAllResult> {
+    const validatedArgs = SearchAllSchema.parse(args);
+    const [result, movieGenres, tvGenres] = await Promise.all([
+        tmdbClient.searchMulti(validatedArgs.query, validatedArgs.page),
+        getGenreNames("movie", tmdbClient),
+        getGenreNames("tv", tmdbClient),
+    ]);
+
+    const formattedResults = result.results.map((item: TMDBMultiSearchResult) =>
+        formatMultiSearchResult(item, { movie: movieGenres, tv: tvGenres })
+    );
+    const countOf = (mediaType: TMDBMultiSearchResult["media_type"]) =>
+        result.results.filter((item: TMDBMultiSearchResult) => item.media_type === mediaType)
+            .length;
+
+    return {
+        page: result.page,
+        total_results: result.total_results,
+        total_pages: result.total_pages,
+        // Counts cover this page of results only
+        media_type_counts: {
+            movie: countOf("movie"),
+            tv: countOf("tv"),
+            person: countOf("person"),
+        },
+        results: formattedResults,
+    };
+}
+
+/**
+ * Search tools registered with the server
+ */
+export const searchTools: ToolDefinition[] = [searchAllTool];
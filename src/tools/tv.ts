@@ -4,7 +4,57 @@
 
 import { z } from "zod";
 import { TMDBClient } from "../utils/tmdb-client.js";
-import type { TMDBTVShow, TMDBTVShowDetails } from "../types/tmdb.js";
+import { buildImageUrl } from "../utils/images.js";
+import { defineTool, type ToolDefinition } from "./registry.js";
+import { KEYWORD_FILTER_DESCRIPTION, resolveKeywordFilter } from "./keywords.js";
+import {
+    GENRE_FILTER_DESCRIPTION,
+    formatGenres,
+    getGenreNames,
+    resolveGenreFilter,
+    type GenreNames,
+} from "./genres.js";
+import {
+    COMPANY_FILTER_DESCRIPTION,
+    NETWORK_FILTER_DESCRIPTION,
+    resolveCompanyFilter,
+    resolveNetworkFilter,
+} from "./companies.js";
+import {
+    INCLUDE_LIMIT,
+    TV_INCLUDES,
+    formatIncludedSections,
+    includeSchema,
+    toAppendToResponse,
+} from "./includes.js";
+import type {
+    TMDBCastMember,
+    TMDBCreditsResponse,
+    TMDBCrewMember,
+    TMDBTVEpisode,
+    TMDBTVShow,
+} from "../types/tmdb.js";
+import {
+    DiscoverTVShowsResultSchema,
+    SearchTVShowsResultSchema,
+    TVCreditsResultSchema,
+    TVEpisodeResultSchema,
+    TVRecommendationsResultSchema,
+    TVSeasonResultSchema,
+    TVShowDetailsResultSchema,
+    type Credits,
+    type DiscoverTVShowsResult,
+    type EpisodeCrewMember,
+    type GuestStar,
+    type SearchTVShowsResult,
+    type TVCreditsResult,
+    type TVEpisodeResult,
+    type TVRecommendationsResult,
+    type TVSeasonResult,
+    type TVShowDetailsResult,
+    type TVShowListItem,
+    type TVShowSummary,
+} from "../types/results.js";
 
 /**
  * Zod schema for search_tv_shows tool
@@ -25,86 +75,77 @@ export const SearchTVShowsSchema = z.object({
  */
 export const GetTVShowDetailsSchema = z.object({
     tv_id: z.number().int().positive().describe("TMDB TV show ID"),
+    include: includeSchema(TV_INCLUDES),
 });
 
 /**
  * Tool definition for search_tv_shows
  */
-export const searchTVShowsTool = {
+export const searchTVShowsTool = defineTool({
     name: "search_tv_shows",
     description:
         "Search for TV shows by name. Returns a list of TV shows matching the search query with basic information like name, first air date, overview, and rating.",
-    inputSchema: {
-        type: "object",
-        properties: {
-            query: {
-                type: "string",
-                description: "TV show name to search for",
-            },
-            page: {
-                type: "number",
-                description: "Page number for paginated results (default: 1)",
-            },
-        },
-        required: ["query"],
-    },
-};
+    schema: SearchTVShowsSchema,
+    outputSchema: SearchTVShowsResultSchema,
+    handler: handleSearchTVShows,
+});
 
 /**
  * Tool definition for get_tv_details
  */
-export const getTVShowDetailsTool = {
+export const getTVShowDetailsTool = defineTool({
     name: "get_tv_details",
     description:
-        "Get detailed information about a specific TV show using its TMDB ID. Returns comprehensive details including number of seasons, episodes, networks, creators, and more.",
-    inputSchema: {
-        type: "object",
-        properties: {
-            tv_id: {
-                type: "number",
-                description: "TMDB TV show ID",
-            },
-        },
-        required: ["tv_id"],
-    },
-};
+        "Get detailed information about a specific TV show using its TMDB ID. Returns comprehensive details including number of seasons, episodes, networks, creators, and more. Pass include to add credits, videos, images, keywords, watch providers, external IDs, content ratings or similar shows in the same request.",
+    schema: GetTVShowDetailsSchema,
+    outputSchema: TVShowDetailsResultSchema,
+    handler: handleGetTVShowDetails,
+});
 
 /**
- * Handler for search_tv_shows tool
+ * Format a TV show search result
+ * Shared by search_tv_shows and search_all
  */
-export async function handleSearchTVShows(
-    args: z.infer<typeof SearchTVShowsSchema>,
-    tmdbClient: TMDBClient
-): Promise<string> {
-    const validatedArgs = SearchTVShowsSchema.parse(args);
-    const result = await tmdbClient.searchTVShows(validatedArgs.query, validatedArgs.page);
-
-    const formattedResults = result.results.map((show: TMDBTVShow) => ({
+export function formatTVShowSearchResult(show: TMDBTVShow, genreNames: GenreNames): TVShowSummary {
+    return {
         id: show.id,
         name: show.name,
         original_name: show.original_name,
         first_air_date: show.first_air_date,
+        genres: formatGenres(show.genre_ids, genreNames),
         overview: show.overview,
         vote_average: show.vote_average,
         vote_count: show.vote_count,
         popularity: show.popularity,
         origin_country: show.origin_country,
-        poster_path: show.poster_path ? `https://image.tmdb.org/t/p/w500${show.poster_path}` : null,
-        backdrop_path: show.backdrop_path
-            ? `https://image.tmdb.org/t/p/original${show.backdrop_path}`
-            : null,
-    }));
+        poster_path: buildImageUrl(show.poster_path, "poster"),
+        backdrop_path: buildImageUrl(show.backdrop_path, "backdrop"),
+    };
+}
 
-    return JSON.stringify(
-        {
-            page: result.page,
-            total_results: result.total_results,
-            total_pages: result.total_pages,
-            results: formattedResults,
-        },
-        null,
-        2
+/**
+ * Handler for search_tv_shows tool
+ */
+export async function handleSearchTVShows(
+    args: z.infer<typeof SearchTVShowsSchema>,
+    tmdbClient: TMDBClient
+): Promise<SearchTVShowsResult> {
+    const validatedArgs = SearchTVShowsSchema.parse(args);
+    const [result, genreNames] = await Promise.all([
+        tmdbClient.searchTVShows(validatedArgs.query, validatedArgs.page),
+        getGenreNames("tv", tmdbClient),
+    ]);
+
+    const formattedResults = result.results.map((show: TMDBTVShow) =>
+        formatTVShowSearchResult(show, genreNames)
     );
+
+    return {
+        page: result.page,
+        total_results: result.total_results,
+        total_pages: result.total_pages,
+        results: formattedResults,
+    };
 }
 
 /**
@@ -113,9 +154,14 @@ export async function handleSearchTVShows(
 export async function handleGetTVShowDetails(
     args: z.infer<typeof GetTVShowDetailsSchema>,
     tmdbClient: TMDBClient
-): Promise<string> {
+): Promise<TVShowDetailsResult> {
     const validatedArgs = GetTVShowDetailsSchema.parse(args);
-    const show: TMDBTVShowDetails = await tmdbClient.getTVShowDetails(validatedArgs.tv_id);
+    const { include } = validatedArgs;
+    const [show, genreNames] = await Promise.all([
+        tmdbClient.getTVShowDetails(validatedArgs.tv_id, toAppendToResponse(include, TV_INCLUDES)),
+        // Similar shows only carry genre IDs
+        include.includes("similar") ? getGenreNames("tv", tmdbClient) : undefined,
+    ]);
 
     const formattedShow = {
         id: show.id,
@@ -140,25 +186,39 @@ export async function handleGetTVShowDetails(
         origin_country: show.origin_country,
         languages: show.languages,
         homepage: show.homepage,
-        poster_path: show.poster_path ? `https://image.tmdb.org/t/p/w500${show.poster_path}` : null,
-        backdrop_path: show.backdrop_path
-            ? `https://image.tmdb.org/t/p/original${show.backdrop_path}`
-            : null,
+        poster_path: buildImageUrl(show.poster_path, "poster"),
+        backdrop_path: buildImageUrl(show.backdrop_path, "backdrop"),
     };
 
-    return JSON.stringify(formattedShow, null, 2);
+    return {
+        ...formattedShow,
+        credits: show.credits && formatTVCredits(show.credits),
+        ...formatIncludedSections(show, tmdbClient.getLocale()),
+        similar:
+            show.similar &&
+            genreNames &&
+            show.similar.results
+                .slice(0, INCLUDE_LIMIT)
+                .map((similar: TMDBTVShow) => formatTVShowSearchResult(similar, genreNames)),
+    };
 }
 
 /**
  * Zod schema for discover_tv_shows tool
  */
 export const DiscoverTVShowsSchema = z.object({
-    with_genres: z
+    with_genres: z.string().optional().describe(GENRE_FILTER_DESCRIPTION),
+    without_genres: z
         .string()
         .optional()
-        .describe(
-            "Genre IDs comma-separated (10759=Action & Adventure, 16=Animation, 35=Comedy, 80=Crime, 99=Documentary, 18=Drama, 10751=Family, 10762=Kids, 9648=Mystery, 10763=News, 10764=Reality, 10765=Sci-Fi & Fantasy, 10766=Soap, 10767=Talk, 10768=War & Politics, 37=Western)"
-        ),
+        .describe("Genre names or IDs to exclude, comma-separated (e.g. 'Reality,Talk')"),
+    with_keywords: z.string().optional().describe(KEYWORD_FILTER_DESCRIPTION),
+    without_keywords: z
+        .string()
+        .optional()
+        .describe("Keyword names or IDs to exclude, comma-separated (e.g. 'remake,sequel')"),
+    with_companies: z.string().optional().describe(COMPANY_FILTER_DESCRIPTION),
+    with_networks: z.string().optional().describe(NETWORK_FILTER_DESCRIPTION),
     with_original_language: z
         .string()
         .optional()
@@ -213,89 +273,55 @@ export const GetTVCreditsSchema = z.object({
 /**
  * Tool definition for discover_tv_shows
  */
-export const discoverTVShowsTool = {
+export const discoverTVShowsTool = defineTool({
     name: "discover_tv_shows",
     description:
-        "Discover TV shows with advanced filters including genre, language, year, rating, and sorting. Perfect for finding shows that match specific criteria like 'Korean dramas from 2023 with rating above 7' or 'Japanese anime shows'.",
-    inputSchema: {
-        type: "object",
-        properties: {
-            with_genres: {
-                type: "string",
-                description:
-                    "Genre IDs comma-separated (10759=Action & Adventure, 35=Comedy, 18=Drama, 9648=Mystery, 10765=Sci-Fi & Fantasy)",
-            },
-            with_original_language: {
-                type: "string",
-                description:
-                    "Filter by original language using ISO 639-1 codes. Single language (e.g., 'ja') or comma-separated for multiple (e.g., 'ja,ko,zh')",
-            },
-            year: {
-                type: "number",
-                description: "First air date year filter",
-            },
-            min_rating: {
-                type: "number",
-                description: "Minimum vote average (0-10)",
-            },
-            max_rating: {
-                type: "number",
-                description: "Maximum vote average (0-10)",
-            },
-            sort_by: {
-                type: "string",
-                description:
-                    "Sort order (popularity.desc, vote_average.desc, first_air_date.desc, etc.)",
-            },
-            page: {
-                type: "number",
-                description: "Page number (default: 1)",
-            },
-        },
-    },
-};
+        "Discover TV shows with advanced filters including genre, language, year, rating, network, production company, and sorting. Perfect for finding shows that match specific criteria like 'Korean dramas from 2023 with rating above 7', 'Japanese anime shows' or 'HBO originals'.",
+    schema: DiscoverTVShowsSchema,
+    outputSchema: DiscoverTVShowsResultSchema,
+    handler: handleDiscoverTVShows,
+});
 
 /**
  * Tool definition for get_tv_recommendations
  */
-export const getTVRecommendationsTool = {
+export const getTVRecommendationsTool = defineTool({
     name: "get_tv_recommendations",
     description:
         "Get TV show recommendations based on a specific show. Returns similar shows that users who liked the given show also enjoyed.",
-    inputSchema: {
-        type: "object",
-        properties: {
-            tv_id: {
-                type: "number",
-                description: "TMDB TV show ID to base recommendations on",
-            },
-            page: {
-                type: "number",
-                description: "Page number for pagination (default: 1)",
-            },
-        },
-        required: ["tv_id"],
-    },
-};
+    schema: GetTVRecommendationsSchema,
+    outputSchema: TVRecommendationsResultSchema,
+    handler: handleGetTVRecommendations,
+});
 
 /**
  * Tool definition for get_tv_credits
  */
-export const getTVCreditsTool = {
+export const getTVCreditsTool = defineTool({
     name: "get_tv_credits",
     description:
         "Get cast and crew information for a specific TV show. Returns actors with their characters and crew members with their roles/departments.",
-    inputSchema: {
-        type: "object",
-        properties: {
-            tv_id: {
-                type: "number",
-                description: "TMDB TV show ID",
-            },
-        },
-        required: ["tv_id"],
-    },
-};
+    schema: GetTVCreditsSchema,
+    outputSchema: TVCreditsResultSchema,
+    handler: handleGetTVCredits,
+});
+
+/**
+ * Format a TV show in discover results or recommendations
+ */
+function formatTVShowListItem(show: TMDBTVShow, genreNames: GenreNames): TVShowListItem {
+    return {
+        id: show.id,
+        name: show.name,
+        first_air_date: show.first_air_date,
+        genres: formatGenres(show.genre_ids, genreNames),
+        overview: show.overview,
+        vote_average: show.vote_average,
+        vote_count: show.vote_count,
+        popularity: show.popularity,
+        poster_path: buildImageUrl(show.poster_path, "poster"),
+    };
+}
 
 /**
  * Handler for discover_tv_shows tool
@@ -303,11 +329,27 @@ export const getTVCreditsTool = {
 export async function handleDiscoverTVShows(
     args: z.infer<typeof DiscoverTVShowsSchema>,
     tmdbClient: TMDBClient
-): Promise<string> {
+): Promise<DiscoverTVShowsResult> {
     const validatedArgs = DiscoverTVShowsSchema.parse(args);
+    const withNetworks = resolveNetworkFilter(validatedArgs.with_networks);
+
+    const [withGenres, withoutGenres, withKeywords, withoutKeywords, withCompanies, genreNames] =
+        await Promise.all([
+            resolveGenreFilter(validatedArgs.with_genres, "tv", tmdbClient),
+            resolveGenreFilter(validatedArgs.without_genres, "tv", tmdbClient),
+            resolveKeywordFilter(validatedArgs.with_keywords, tmdbClient),
+            resolveKeywordFilter(validatedArgs.without_keywords, tmdbClient),
+            resolveCompanyFilter(validatedArgs.with_companies, tmdbClient),
+            getGenreNames("tv", tmdbClient),
+        ]);
 
     const result = await tmdbClient.discoverTVShows({
-        with_genres: validatedArgs.with_genres,
+        with_genres: withGenres?.ids,
+        without_genres: withoutGenres?.ids,
+        with_keywords: withKeywords?.ids,
+        without_keywords: withoutKeywords?.ids,
+        with_companies: withCompanies?.ids,
+        with_networks: withNetworks?.ids,
         with_original_language: validatedArgs.with_original_language,
         first_air_date_year: validatedArgs.year,
         "vote_average.gte": validatedArgs.min_rating,
@@ -316,35 +358,29 @@ export async function handleDiscoverTVShows(
         page: validatedArgs.page,
     });
 
-    const formattedResults = result.results.map((show: TMDBTVShow) => ({
-        id: show.id,
-        name: show.name,
-        first_air_date: show.first_air_date,
-        overview: show.overview,
-        vote_average: show.vote_average,
-        vote_count: show.vote_count,
-        popularity: show.popularity,
-        poster_path: show.poster_path ? `https://image.tmdb.org/t/p/w500${show.poster_path}` : null,
-    }));
+    const formattedResults = result.results.map((show: TMDBTVShow) =>
+        formatTVShowListItem(show, genreNames)
+    );
 
-    return JSON.stringify(
-        {
-            page: result.page,
-            total_results: result.total_results,
-            total_pages: result.total_pages,
-            filters_applied: {
-                genres: validatedArgs.with_genres,
-                original_language: validatedArgs.with_original_language,
-                year: validatedArgs.year,
-                min_rating: validatedArgs.min_rating,
-                max_rating: validatedArgs.max_rating,
-                sort_by: validatedArgs.sort_by,
-            },
-            results: formattedResults,
+    return {
+        page: result.page,
+        total_results: result.total_results,
+        total_pages: result.total_pages,
+        filters_applied: {
+            with_genres: withGenres?.genres,
+            without_genres: withoutGenres?.genres,
+            with_keywords: withKeywords?.keywords,
+            without_keywords: withoutKeywords?.keywords,
+            with_companies: withCompanies?.companies,
+            with_networks: withNetworks?.networks,
+            original_language: validatedArgs.with_original_language,
+            year: validatedArgs.year,
+            min_rating: validatedArgs.min_rating,
+            max_rating: validatedArgs.max_rating,
+            sort_by: validatedArgs.sort_by,
         },
-        null,
-        2
-    );
+        results: formattedResults,
+    };
 }
 
 /**
@@ -353,56 +389,37 @@ export async function handleDiscoverTVShows(
 export async function handleGetTVRecommendations(
     args: z.infer<typeof GetTVRecommendationsSchema>,
     tmdbClient: TMDBClient
-): Promise<string> {
+): Promise<TVRecommendationsResult> {
     const validatedArgs = GetTVRecommendationsSchema.parse(args);
 
-    const result = await tmdbClient.getTVShowRecommendations(
-        validatedArgs.tv_id,
-        validatedArgs.page
-    );
+    const [result, genreNames] = await Promise.all([
+        tmdbClient.getTVShowRecommendations(validatedArgs.tv_id, validatedArgs.page),
+        getGenreNames("tv", tmdbClient),
+    ]);
 
-    const formattedResults = result.results.map((show: TMDBTVShow) => ({
-        id: show.id,
-        name: show.name,
-        first_air_date: show.first_air_date,
-        overview: show.overview,
-        vote_average: show.vote_average,
-        vote_count: show.vote_count,
-        popularity: show.popularity,
-        poster_path: show.poster_path ? `https://image.tmdb.org/t/p/w500${show.poster_path}` : null,
-    }));
-
-    return JSON.stringify(
-        {
-            based_on_tv_id: validatedArgs.tv_id,
-            page: result.page,
-            total_results: result.total_results,
-            total_pages: result.total_pages,
-            recommendations: formattedResults,
-        },
-        null,
-        2
+    const formattedResults = result.results.map((show: TMDBTVShow) =>
+        formatTVShowListItem(show, genreNames)
     );
+
+    return {
+        based_on_tv_id: validatedArgs.tv_id,
+        page: result.page,
+        total_results: result.total_results,
+        total_pages: result.total_pages,
+        recommendations: formattedResults,
+    };
 }
 
 /**
- * Handler for get_tv_credits tool
+ * Format the top 20 cast members and key crew
+ * Shared by get_tv_credits and get_tv_details
  */
-export async function handleGetTVCredits(
-    args: z.infer<typeof GetTVCreditsSchema>,
-    tmdbClient: TMDBClient
-): Promise<string> {
-    const validatedArgs = GetTVCreditsSchema.parse(args);
-    const credits = await tmdbClient.getTVShowCredits(validatedArgs.tv_id);
-
-    // Format and return top 20 cast members and key crew
-    const formattedCast = credits.cast.slice(0, 20).map((member: any) => ({
+function formatTVCredits(credits: Pick<TMDBCreditsResponse, "cast" | "crew">): Credits {
+    const formattedCast = credits.cast.slice(0, 20).map((member: TMDBCastMember) => ({
         id: member.id,
         name: member.name,
         character: member.character,
-        profile_path: member.profile_path
-            ? `https://image.tmdb.org/t/p/w185${member.profile_path}`
-            : null,
+        profile_path: buildImageUrl(member.profile_path, "profile"),
     }));
 
     // Filter crew to key roles
@@ -416,21 +433,196 @@ export async function handleGetTVCredits(
         "Creator",
     ];
     const formattedCrew = credits.crew
-        .filter((member: any) => keyJobs.includes(member.job))
-        .map((member: any) => ({
+        .filter((member: TMDBCrewMember) => keyJobs.includes(member.job))
+        .map((member: TMDBCrewMember) => ({
             id: member.id,
             name: member.name,
             job: member.job,
             department: member.department,
         }));
 
-    return JSON.stringify(
-        {
-            tv_id: credits.id,
-            cast: formattedCast,
-            crew: formattedCrew,
-        },
-        null,
-        2
+    return { cast: formattedCast, crew: formattedCrew };
+}
+
+/**
+ * Handler for get_tv_credits tool
+ */
+export async function handleGetTVCredits(
+    args: z.infer<typeof GetTVCreditsSchema>,
+    tmdbClient: TMDBClient
+): Promise<TVCreditsResult> {
+    const validatedArgs = GetTVCreditsSchema.parse(args);
+    const credits = await tmdbClient.getTVShowCredits(validatedArgs.tv_id);
+
+    return {
+        tv_id: credits.id,
+        ...formatTVCredits(credits),
+    };
+}
+
+/**
+ * Zod schema for get_tv_season tool
+ */
+export const GetTVSeasonSchema = z.object({
+    tv_id: z.number().int().positive().describe("TMDB TV show ID"),
+    season_number: z.number().int().min(0).describe("Season number (0 is specials on most shows)"),
+});
+
+/**
+ * Zod schema for get_tv_episode tool
+ */
+export const GetTVEpisodeSchema = z.object({
+    tv_id: z.number().int().positive().describe("TMDB TV show ID"),
+    season_number: z.number().int().min(0).describe("Season number (0 is specials on most shows)"),
+    episode_number: z.number().int().positive().describe("Episode number within the season"),
+});
+
+/**
+ * Tool definition for get_tv_season
+ */
+export const getTVSeasonTool = defineTool({
+    name: "get_tv_season",
+    description:
+        "Get a season of a TV show. Returns the season overview and every episode with its air date, runtime, rating, synopsis, directors, writers and guest stars.",
+    schema: GetTVSeasonSchema,
+    outputSchema: TVSeasonResultSchema,
+    handler: handleGetTVSeason,
+});
+
+/**
+ * Tool definition for get_tv_episode
+ */
+export const getTVEpisodeTool = defineTool({
+    name: "get_tv_episode",
+    description:
+        "Get detailed information about a single TV episode. Returns synopsis, air date, runtime, rating, guest stars with their characters, and crew such as directors and writers.",
+    schema: GetTVEpisodeSchema,
+    outputSchema: TVEpisodeResultSchema,
+    handler: handleGetTVEpisode,
+});
+
+// Crew jobs worth surfacing for an episode
+const episodeKeyJobs = ["Director", "Writer", "Teleplay", "Story", "Screenplay"];
+
+/**
+ * Format an episode's key crew members
+ */
+function formatEpisodeCrew(crew: TMDBCrewMember[]): EpisodeCrewMember[] {
+    return crew
+        .filter((member: TMDBCrewMember) => episodeKeyJobs.includes(member.job))
+        .map((member: TMDBCrewMember) => ({
+            id: member.id,
+            name: member.name,
+            job: member.job,
+        }));
+}
+
+/**
+ * Format an episode's guest stars in billing order
+ * Profile images are only included for a single episode, keeping season listings short
+ */
+function formatGuestStars(guestStars: TMDBCastMember[], withProfiles = false): GuestStar[] {
+    return [...guestStars]
+        .sort((a, b) => a.order - b.order)
+        .map((member: TMDBCastMember) => ({
+            id: member.id,
+            name: member.name,
+            character: member.character,
+            ...(withProfiles && {
+                profile_path: buildImageUrl(member.profile_path, "profile"),
+            }),
+        }));
+}
+
+/**
+ * Handler for get_tv_season tool
+ */
+export async function handleGetTVSeason(
+    args: z.infer<typeof GetTVSeasonSchema>,
+    tmdbClient: TMDBClient
+): Promise<TVSeasonResult> {
+    const validatedArgs = GetTVSeasonSchema.parse(args);
+    const season = await tmdbClient.getTVSeasonDetails(
+        validatedArgs.tv_id,
+        validatedArgs.season_number
     );
+
+    const formattedEpisodes = season.episodes.map((episode: TMDBTVEpisode) => ({
+        id: episode.id,
+        episode_number: episode.episode_number,
+        name: episode.name,
+        air_date: episode.air_date,
+        runtime: episode.runtime,
+        episode_type: episode.episode_type,
+        vote_average: episode.vote_average,
+        vote_count: episode.vote_count,
+        overview: episode.overview,
+        crew: formatEpisodeCrew(episode.crew),
+        guest_stars: formatGuestStars(episode.guest_stars),
+    }));
+
+    return {
+        tv_id: validatedArgs.tv_id,
+        id: season.id,
+        season_number: season.season_number,
+        name: season.name,
+        overview: season.overview,
+        air_date: season.air_date,
+        vote_average: season.vote_average,
+        episode_count: season.episodes.length,
+        total_runtime: season.episodes.reduce(
+            (total: number, episode: TMDBTVEpisode) => total + (episode.runtime ?? 0),
+            0
+        ),
+        poster_path: buildImageUrl(season.poster_path, "poster"),
+        episodes: formattedEpisodes,
+    };
 }
+
+/**
+ * Handler for get_tv_episode tool
+ */
+export async function handleGetTVEpisode(
+    args: z.infer<typeof GetTVEpisodeSchema>,
+    tmdbClient: TMDBClient
+): Promise<TVEpisodeResult> {
+    const validatedArgs = GetTVEpisodeSchema.parse(args);
+    const episode = await tmdbClient.getTVEpisodeDetails(
+        validatedArgs.tv_id,
+        validatedArgs.season_number,
+        validatedArgs.episode_number
+    );
+
+    const formattedEpisode: TVEpisodeResult = {
+        tv_id: validatedArgs.tv_id,
+        id: episode.id,
+        season_number: episode.season_number,
+        episode_number: episode.episode_number,
+        name: episode.name,
+        overview: episode.overview,
+        air_date: episode.air_date,
+        runtime: episode.runtime,
+        episode_type: episode.episode_type,
+        production_code: episode.production_code,
+        vote_average: episode.vote_average,
+        vote_count: episode.vote_count,
+        crew: formatEpisodeCrew(episode.crew),
+        guest_stars: formatGuestStars(episode.guest_stars, true),
+        still_path: buildImageUrl(episode.still_path, "still"),
+    };
+
+    return formattedEpisode;
+}
+
+/**
+ * TV show tools registered with the server
+ */
+export const tvTools: ToolDefinition[] = [
+    searchTVShowsTool,
+    getTVShowDetailsTool,
+    discoverTVShowsTool,
+    getTVRecommendationsTool,
+    getTVCreditsTool,
+    getTVSeasonTool,
+    getTVEpisodeTool,
+];
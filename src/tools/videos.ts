@@ -0,0 +1,156 @@
+/**
+ * Video-related MCP tools (trailers, teasers, clips, featurettes)
+ */
+
+import { z } from "zod";
+import { TMDBClient } from "../utils/tmdb-client.js";
+import { defineTool, type ToolDefinition } from "./registry.js";
+import type { TMDBVideo } from "../types/tmdb.js";
+import { VideosResultSchema, type Video, type VideosResult } from "../types/results.js";
+
+/**
+ * Video types returned by TMDB, in the order they are ranked
+ */
+const VIDEO_TYPES = [
+    "Trailer",
+    "Teaser",
+    "Clip",
+    "Featurette",
+    "Behind the Scenes",
+    "Bloopers",
+    "Opening Credits",
+] as const;
+
+/**
+ * Watch page URL templates per hosting site
+ */
+const WATCH_URLS: Record<string, (key: string) => string> = {
+    YouTube: (key) => `https://www.youtube.com/watch?v=${key}`,
+    Vimeo: (key) => `https://vimeo.com/${key}`,
+};
+
+/**
+ * Zod schema for get_videos tool
+ */
+export const GetVideosSchema = z.object({
+    media_type: z.enum(["movie", "tv"]).describe("Type of content: movie or tv"),
+    id: z.number().int().positive().describe("TMDB movie or TV show ID"),
+    season_number: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("TV only: get videos for this season instead of the whole show"),
+    language: z
+        .string()
+        .regex(/^[a-z]{2}$/, "Language must be a two-letter ISO 639-1 code")
+        .optional()
+        .describe(
+            "Preferred ISO 639-1 language (e.g. 'en', 'ja'). Videos in this language are ranked first; English videos are still included (default: server setting, or en)"
+        ),
+    types: z
+        .array(z.enum(VIDEO_TYPES))
+        .optional()
+        .describe("Only return these video types, e.g. ['Trailer', 'Teaser'] (default: all)"),
+    limit: z
+        .number()
+        .int()
+        .positive()
+        .max(50)
+        .optional()
+        .default(10)
+        .describe("Maximum number of videos to return (default: 10)"),
+});
+
+/**
+ * Tool definition for get_videos
+ */
+export const getVideosTool = defineTool({
+    name: "get_videos",
+    description:
+        "Get trailers, teasers, clips and featurettes for a movie, TV show, or TV season. Returns a ready-to-open watch URL for each video plus the best trailer, preferring official trailers in the requested language.",
+    schema: GetVideosSchema,
+    outputSchema: VideosResultSchema,
+    handler: handleGetVideos,
+});
+
+/**
+ * Rank videos: by type (trailers first), then requested language, then official,
+ * then highest resolution, then newest
+ */
+export function compareVideos(language: string) {
+    const videoTypes: readonly string[] = VIDEO_TYPES;
+    const typeRank = (video: TMDBVideo) => {
+        const index = videoTypes.indexOf(video.type);
+        return index === -1 ? videoTypes.length : index;
+    };
+
+    return (a: TMDBVideo, b: TMDBVideo) =>
+        typeRank(a) - typeRank(b) ||
+        Number(b.iso_639_1 === language) - Number(a.iso_639_1 === language) ||
+        Number(b.official) - Number(a.official) ||
+        b.size - a.size ||
+        b.published_at.localeCompare(a.published_at);
+}
+
+/**
+ * Format a video with its resolved watch URL
+ */
+export function formatVideo(video: TMDBVideo): Video {
+    const watchUrl = WATCH_URLS[video.site];
+
+    return {
+        name: video.name,
+        type: video.type,
+        site: video.site,
+        key: video.key,
+        url: watchUrl ? watchUrl(video.key) : null,
+        official: video.official,
+        language: video.iso_639_1,
+        size: video.size,
+        published_at: video.published_at,
+    };
+}
+
+/**
+ * Handler for get_videos tool
+ */
+export async function handleGetVideos(
+    args: z.infer<typeof GetVideosSchema>,
+    tmdbClient: TMDBClient
+): Promise<VideosResult> {
+    const validatedArgs = GetVideosSchema.parse(args);
+    const { media_type, id, season_number } = validatedArgs;
+    const language = validatedArgs.language ?? tmdbClient.getLocale().language?.slice(0, 2) ?? "en";
+
+    if (season_number !== undefined && media_type !== "tv") {
+        throw new Error("season_number is only supported for media_type tv");
+    }
+
+    const result = await tmdbClient.getVideos(media_type, id, season_number, [
+        ...new Set([language, "en", "null"]),
+    ]);
+
+    const requestedTypes: readonly string[] | undefined = validatedArgs.types;
+    const videos = result.results
+        .filter((video: TMDBVideo) => !requestedTypes || requestedTypes.includes(video.type))
+        .sort(compareVideos(language));
+
+    // Sorted order puts official trailers in the requested language first
+    const bestTrailer = videos.find((video: TMDBVideo) => video.type === "Trailer");
+
+    return {
+        media_type,
+        id,
+        season_number,
+        language,
+        best_trailer: bestTrailer ? formatVideo(bestTrailer) : null,
+        total_results: videos.length,
+        videos: videos.slice(0, validatedArgs.limit).map(formatVideo),
+    };
+}
+
+/**
+ * Video tools registered with the server
+ */
+export const videoTools: ToolDefinition[] = [getVideosTool];
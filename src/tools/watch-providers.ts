@@ -0,0 +1,175 @@
+/**
+ * Where-to-watch MCP tools
+ * Streaming, rental and purchase availability data is provided to TMDB by JustWatch
+ */
+
+import { z } from "zod";
+import { TMDBClient } from "../utils/tmdb-client.js";
+import { buildImageUrl } from "../utils/images.js";
+import { defineTool, type ToolDefinition } from "./registry.js";
+import type { TMDBWatchProvider, TMDBWatchProviderRegion } from "../types/tmdb.js";
+import {
+    WatchProviderListResultSchema,
+    WatchProvidersResultSchema,
+    type RegionProviders,
+    type WatchProvider,
+    type WatchProviderListResult,
+    type WatchProvidersResult,
+} from "../types/results.js";
+
+// Region for watch providers and ratings when the server and call don't set one
+export const DEFAULT_REGION = "US";
+
+/**
+ * Region argument shared by the watch provider tools
+ */
+const RegionSchema = z
+    .string()
+    .regex(/^[A-Za-z]{2}$/, "Region must be a two-letter ISO 3166-1 code")
+    .toUpperCase()
+    .optional()
+    .describe("ISO 3166-1 country code, e.g. 'US', 'GB', 'DE' (default: server setting, or US)");
+
+/**
+ * Zod schema for get_watch_providers tool
+ */
+export const GetWatchProvidersSchema = z.object({
+    media_type: z.enum(["movie", "tv"]).describe("Type of content: movie or tv"),
+    id: z.number().int().positive().describe("TMDB movie or TV show ID"),
+    region: RegionSchema,
+});
+
+/**
+ * Zod schema for list_watch_providers tool
+ */
+export const ListWatchProvidersSchema = z.object({
+    media_type: z
+        .enum(["movie", "tv"])
+        .optional()
+        .default("movie")
+        .describe("Type of content: movie or tv (default: movie)"),
+    region: RegionSchema,
+});
+
+/**
+ * Tool definition for get_watch_providers
+ */
+export const getWatchProvidersTool = defineTool({
+    name: "get_watch_providers",
+    description:
+        "Find where a movie or TV show can be watched in a country. Returns providers grouped into subscription streaming (flatrate), free, free with ads, rent and buy, with provider names and logos.",
+    schema: GetWatchProvidersSchema,
+    outputSchema: WatchProvidersResultSchema,
+    handler: handleGetWatchProviders,
+});
+
+/**
+ * Tool definition for list_watch_providers
+ */
+export const listWatchProvidersTool = defineTool({
+    name: "list_watch_providers",
+    description:
+        "List all streaming, rental and purchase providers available for movies or TV shows in a country, ordered by their prominence in that country.",
+    schema: ListWatchProvidersSchema,
+    outputSchema: WatchProviderListResultSchema,
+    handler: handleListWatchProviders,
+});
+
+/**
+ * Format a provider with its full logo URL
+ */
+function formatProvider(provider: TMDBWatchProvider): WatchProvider {
+    return {
+        provider_id: provider.provider_id,
+        provider_name: provider.provider_name,
+        logo_path: buildImageUrl(provider.logo_path, "logo"),
+    };
+}
+
+/**
+ * Format one offer type's providers ordered by display priority
+ */
+function formatOffers(providers: TMDBWatchProvider[] = []): WatchProvider[] {
+    return [...providers]
+        .sort((a, b) => a.display_priority - b.display_priority)
+        .map(formatProvider);
+}
+
+/**
+ * Format a region's providers grouped by offer type, in the order they are presented
+ */
+export function formatRegionProviders(regionProviders: TMDBWatchProviderRegion): RegionProviders {
+    return {
+        link: regionProviders.link,
+        flatrate: formatOffers(regionProviders.flatrate),
+        free: formatOffers(regionProviders.free),
+        ads: formatOffers(regionProviders.ads),
+        rent: formatOffers(regionProviders.rent),
+        buy: formatOffers(regionProviders.buy),
+    };
+}
+
+/**
+ * Handler for get_watch_providers tool
+ */
+export async function handleGetWatchProviders(
+    args: z.infer<typeof GetWatchProvidersSchema>,
+    tmdbClient: TMDBClient
+): Promise<WatchProvidersResult> {
+    const validatedArgs = GetWatchProvidersSchema.parse(args);
+    const region = validatedArgs.region ?? tmdbClient.getLocale().region ?? DEFAULT_REGION;
+    const result = await tmdbClient.getWatchProviders(validatedArgs.media_type, validatedArgs.id);
+    const regionProviders = result.results[region];
+
+    if (!regionProviders) {
+        return {
+            media_type: validatedArgs.media_type,
+            id: validatedArgs.id,
+            region,
+            available: false,
+            message: `No watch providers found in ${region}`,
+            available_regions: Object.keys(result.results).sort(),
+        };
+    }
+
+    return {
+        media_type: validatedArgs.media_type,
+        id: validatedArgs.id,
+        region,
+        available: true,
+        ...formatRegionProviders(regionProviders),
+        attribution: "Watch provider data by JustWatch",
+    };
+}
+
+/**
+ * Handler for list_watch_providers tool
+ */
+export async function handleListWatchProviders(
+    args: z.infer<typeof ListWatchProvidersSchema>,
+    tmdbClient: TMDBClient
+): Promise<WatchProviderListResult> {
+    const validatedArgs = ListWatchProvidersSchema.parse(args);
+    const region = validatedArgs.region ?? tmdbClient.getLocale().region ?? DEFAULT_REGION;
+    const result = await tmdbClient.getAvailableWatchProviders(validatedArgs.media_type, region);
+
+    const providers = [...result.results]
+        .sort(
+            (a, b) =>
+                (a.display_priorities[region] ?? a.display_priority) -
+                (b.display_priorities[region] ?? b.display_priority)
+        )
+        .map(formatProvider);
+
+    return {
+        media_type: validatedArgs.media_type,
+        region,
+        total_results: providers.length,
+        providers,
+    };
+}
+
+/**
+ * Watch provider tools registered with the server
+ */
+export const watchProviderTools: ToolDefinition[] = [getWatchProvidersTool, listWatchProvidersTool];
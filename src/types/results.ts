@@ -0,0 +1,1012 @@
+/**
+ * Tool result types
+ *
+ * Each tool's result shape is a Zod schema: the registry advertises it as the tool's
+ * outputSchema and returns results as structuredContent. The formatters in src/tools/
+ * build these types, so shapes shared by several tools are defined once here.
+ */
+
+import { z } from "zod";
+import {
+    TMDBCompanySchema,
+    TMDBGenreSchema,
+    TMDBMovieDetailsSchema,
+    TMDBTVShowDetailsSchema,
+} from "./tmdb.js";
+
+/**
+ * Full image URL, or null when there is no image
+ */
+const ImageUrlSchema = z.string().nullable();
+
+/**
+ * TMDB entity reference, e.g. a genre, keyword, company or network resolved from a filter
+ */
+export const NamedIdSchema = z.object({
+    id: z.number(),
+    name: z.string(),
+});
+export type NamedId = z.infer<typeof NamedIdSchema>;
+
+/**
+ * Pagination fields of a paginated result
+ */
+const PageSchema = z.object({
+    page: z.number(),
+    total_results: z.number(),
+    total_pages: z.number(),
+});
+
+/**
+ * Schema for a page of the given results
+ */
+function pageResultSchema<T extends z.ZodType>(item: T) {
+    return PageSchema.extend({ results: z.array(item) });
+}
+
+// ---------------------------------------------------------------------------
+// Movies
+// ---------------------------------------------------------------------------
+
+/**
+ * Movie in search results and curated lists
+ */
+export const MovieSummarySchema = z.object({
+    id: z.number(),
+    title: z.string(),
+    original_title: z.string(),
+    release_date: z.string(),
+    genres: z.array(z.string()),
+    overview: z.string(),
+    vote_average: z.number(),
+    vote_count: z.number(),
+    popularity: z.number(),
+    poster_path: ImageUrlSchema,
+    backdrop_path: ImageUrlSchema,
+});
+export type MovieSummary = z.infer<typeof MovieSummarySchema>;
+
+/**
+ * Movie in discover results and recommendations
+ */
+export const MovieListItemSchema = MovieSummarySchema.omit({
+    original_title: true,
+    backdrop_path: true,
+});
+export type MovieListItem = z.infer<typeof MovieListItemSchema>;
+
+/**
+ * Cast member in movie or TV credits
+ */
+export const CastMemberSchema = z.object({
+    id: z.number(),
+    name: z.string(),
+    character: z.string(),
+    order: z.number().optional(), // Billing order, movies only
+    profile_path: ImageUrlSchema,
+});
+export type CastMember = z.infer<typeof CastMemberSchema>;
+
+/**
+ * Crew member in key roles (director, writer, producer, ...)
+ */
+export const CrewMemberSchema = z.object({
+    id: z.number(),
+    name: z.string(),
+    job: z.string(),
+    department: z.string(),
+});
+export type CrewMember = z.infer<typeof CrewMemberSchema>;
+
+/**
+ * Top-billed cast and key crew of a movie or TV show
+ */
+export const CreditsSchema = z.object({
+    cast: z.array(CastMemberSchema),
+    crew: z.array(CrewMemberSchema),
+});
+export type Credits = z.infer<typeof CreditsSchema>;
+
+// ---------------------------------------------------------------------------
+// TV shows
+// ---------------------------------------------------------------------------
+
+/**
+ * TV show in search results and curated lists
+ */
+export const TVShowSummarySchema = z.object({
+    id: z.number(),
+    name: z.string(),
+    original_name: z.string(),
+    first_air_date: z.string(),
+    genres: z.array(z.string()),
+    overview: z.string(),
+    vote_average: z.number(),
+    vote_count: z.number(),
+    popularity: z.number(),
+    origin_country: z.array(z.string()),
+    poster_path: ImageUrlSchema,
+    backdrop_path: ImageUrlSchema,
+});
+export type TVShowSummary = z.infer<typeof TVShowSummarySchema>;
+
+/**
+ * TV show in discover results and recommendations
+ */
+export const TVShowListItemSchema = TVShowSummarySchema.omit({
+    original_name: true,
+    origin_country: true,
+    backdrop_path: true,
+});
+export type TVShowListItem = z.infer<typeof TVShowListItemSchema>;
+
+/**
+ * Key crew member of an episode (director, writer)
+ */
+export const EpisodeCrewMemberSchema = CrewMemberSchema.omit({ department: true });
+export type EpisodeCrewMember = z.infer<typeof EpisodeCrewMemberSchema>;
+
+/**
+ * Guest star of an episode
+ */
+export const GuestStarSchema = z.object({
+    id: z.number(),
+    name: z.string(),
+    character: z.string(),
+    profile_path: ImageUrlSchema.optional(), // Only in get_tv_episode
+});
+export type GuestStar = z.infer<typeof GuestStarSchema>;
+
+// ---------------------------------------------------------------------------
+// People
+// ---------------------------------------------------------------------------
+
+/**
+ * Person in search results
+ */
+export const PersonSummarySchema = z.object({
+    id: z.number(),
+    name: z.string(),
+    known_for_department: z.string().nullable(),
+    popularity: z.number(),
+    profile_path: ImageUrlSchema,
+    known_for: z
+        .array(
+            z.object({
+                id: z.number(),
+                title: z.string(),
+                media_type: z.enum(["movie", "tv"]),
+                vote_average: z.number(),
+            })
+        )
+        .optional(),
+});
+export type PersonSummary = z.infer<typeof PersonSummarySchema>;
+
+/**
+ * Title a person is credited on; multiple roles on one title are merged
+ */
+const PersonCreditTitleSchema = z.object({
+    id: z.number(),
+    media_type: z.enum(["movie", "tv"]),
+    title: z.string().optional(),
+    release_date: z.string().nullable(),
+    vote_average: z.number(),
+    vote_count: z.number(),
+    popularity: z.number(),
+    episode_count: z.number().optional(), // TV only
+});
+export type PersonCreditTitle = z.infer<typeof PersonCreditTitleSchema>;
+
+/**
+ * Acting credit with every character played on the title
+ */
+export const PersonCastCreditSchema = PersonCreditTitleSchema.extend({
+    characters: z.array(z.string()),
+});
+export type PersonCastCredit = z.infer<typeof PersonCastCreditSchema>;
+
+/**
+ * Crew credit with every job held on the title
+ */
+export const PersonCrewCreditSchema = PersonCreditTitleSchema.extend({
+    jobs: z.array(z.string()),
+    departments: z.array(z.string()),
+});
+export type PersonCrewCredit = z.infer<typeof PersonCrewCreditSchema>;
+
+// ---------------------------------------------------------------------------
+// Media, availability and ratings
+// ---------------------------------------------------------------------------
+
+/**
+ * Image with a URL at the requested size
+ */
+export const ImageSchema = z.object({
+    url: ImageUrlSchema,
+    file_path: z.string(),
+    width: z.number(),
+    height: z.number(),
+    aspect_ratio: z.number(),
+    language: z.string().nullable(),
+    vote_average: z.number(),
+    vote_count: z.number(),
+});
+export type Image = z.infer<typeof ImageSchema>;
+
+/**
+ * Highest voted images of one type
+ */
+export const ImageListSchema = z.object({
+    total: z.number(),
+    images: z.array(ImageSchema),
+});
+export type ImageList = z.infer<typeof ImageListSchema>;
+
+/**
+ * Image lists by type; which are present depends on the movie, show, season, episode or person
+ */
+export const ImageListsSchema = z.object({
+    posters: ImageListSchema.optional(),
+    backdrops: ImageListSchema.optional(),
+    logos: ImageListSchema.optional(),
+    profiles: ImageListSchema.optional(),
+    stills: ImageListSchema.optional(),
+});
+export type ImageLists = z.infer<typeof ImageListsSchema>;
+
+/**
+ * Video with its resolved watch URL
+ */
+export const VideoSchema = z.object({
+    name: z.string(),
+    type: z.string(),
+    site: z.string(),
+    key: z.string(),
+    url: z.string().nullable(),
+    official: z.boolean(),
+    language: z.string(),
+    size: z.number(),
+    published_at: z.string(),
+});
+export type Video = z.infer<typeof VideoSchema>;
+
+/**
+ * Ranked videos with the best trailer picked out
+ */
+export const VideoListSchema = z.object({
+    best_trailer: VideoSchema.nullable(),
+    total_results: z.number(),
+    videos: z.array(VideoSchema),
+});
+export type VideoList = z.infer<typeof VideoListSchema>;
+
+/**
+ * Streaming, rental or purchase provider
+ */
+export const WatchProviderSchema = z.object({
+    provider_id: z.number(),
+    provider_name: z.string(),
+    logo_path: ImageUrlSchema,
+});
+export type WatchProvider = z.infer<typeof WatchProviderSchema>;
+
+/**
+ * Providers offering a title in one region, grouped by offer type
+ */
+export const RegionProvidersSchema = z.object({
+    link: z.string(),
+    flatrate: z.array(WatchProviderSchema), // Subscription streaming
+    free: z.array(WatchProviderSchema),
+    ads: z.array(WatchProviderSchema),
+    rent: z.array(WatchProviderSchema),
+    buy: z.array(WatchProviderSchema),
+});
+export type RegionProviders = z.infer<typeof RegionProvidersSchema>;
+
+/**
+ * Where a title can be watched in one region; offers are only present when available
+ */
+export const WatchAvailabilitySchema = RegionProvidersSchema.partial().extend({
+    region: z.string(),
+    available: z.boolean(),
+    available_regions: z.array(z.string()).optional(), // Regions with providers, when unavailable
+    attribution: z.string().optional(),
+});
+export type WatchAvailability = z.infer<typeof WatchAvailabilitySchema>;
+
+/**
+ * Movie release in one country
+ */
+export const ReleaseSchema = z.object({
+    type: z.string(), // "premiere", "theatrical_limited", "theatrical", "digital", "physical", "tv"
+    release_date: z.string(),
+    certification: z.string().nullable(),
+    descriptors: z.array(z.string()),
+    language: z.string().nullable(),
+    note: z.string().nullable(),
+});
+export type Release = z.infer<typeof ReleaseSchema>;
+
+/**
+ * Movie releases and headline certification in one country
+ */
+export const CountryReleasesSchema = z.object({
+    country: z.string(),
+    certification: z.string().nullable(),
+    releases: z.array(ReleaseSchema),
+});
+export type CountryReleases = z.infer<typeof CountryReleasesSchema>;
+
+/**
+ * TV content rating in one country
+ */
+export const ContentRatingSchema = z.object({
+    country: z.string(),
+    rating: z.string().nullable(),
+    descriptors: z.array(z.string()),
+});
+export type ContentRating = z.infer<typeof ContentRatingSchema>;
+
+/**
+ * Known external IDs with links to their pages
+ */
+export const ExternalIdListSchema = z.object({
+    external_ids: z.record(z.string(), z.union([z.string(), z.number()])),
+    links: z.record(z.string(), z.string()), // Keyed by site, e.g. "imdb"
+});
+export type ExternalIdList = z.infer<typeof ExternalIdListSchema>;
+
+/**
+ * Sections added to a detail tool's result by its include argument
+ */
+export const IncludedSectionsSchema = z.object({
+    videos: VideoListSchema.optional(),
+    images: ImageListsSchema.optional(),
+    keywords: z.array(NamedIdSchema).optional(),
+    watch_providers: WatchAvailabilitySchema.optional(),
+    external_ids: ExternalIdListSchema.optional(),
+    release_dates: CountryReleasesSchema.optional(),
+    content_ratings: ContentRatingSchema.optional(),
+});
+export type IncludedSections = z.infer<typeof IncludedSectionsSchema>;
+
+// ---------------------------------------------------------------------------
+// Search and discovery tool results
+// ---------------------------------------------------------------------------
+
+/**
+ * search_all result
+ */
+export const SearchAllResultSchema = PageSchema.extend({
+    media_type_counts: z.object({
+        movie: z.number(),
+        tv: z.number(),
+        person: z.number(),
+    }),
+    results: z.array(
+        z.discriminatedUnion("media_type", [
+            MovieSummarySchema.extend({ media_type: z.literal("movie") }),
+            TVShowSummarySchema.extend({ media_type: z.literal("tv") }),
+            PersonSummarySchema.extend({ media_type: z.literal("person") }),
+        ])
+    ),
+});
+export type SearchAllResult = z.infer<typeof SearchAllResultSchema>;
+
+/**
+ * search_movies result
+ */
+export const SearchMoviesResultSchema = pageResultSchema(MovieSummarySchema);
+export type SearchMoviesResult = z.infer<typeof SearchMoviesResultSchema>;
+
+/**
+ * search_tv_shows result
+ */
+export const SearchTVShowsResultSchema = pageResultSchema(TVShowSummarySchema);
+export type SearchTVShowsResult = z.infer<typeof SearchTVShowsResultSchema>;
+
+/**
+ * search_people result
+ */
+export const SearchPeopleResultSchema = pageResultSchema(PersonSummarySchema);
+export type SearchPeopleResult = z.infer<typeof SearchPeopleResultSchema>;
+
+/**
+ * Filters shared by discover_movies and discover_tv_shows, as resolved from names and IDs
+ */
+const DiscoverFiltersSchema = z.object({
+    with_genres: z.array(NamedIdSchema).optional(),
+    without_genres: z.array(NamedIdSchema).optional(),
+    with_keywords: z.array(NamedIdSchema).optional(),
+    without_keywords: z.array(NamedIdSchema).optional(),
+    with_companies: z.array(NamedIdSchema).optional(),
+    original_language: z.string().optional(),
+    min_rating: z.number().optional(),
+    max_rating: z.number().optional(),
+    sort_by: z.string(),
+});
+
+/**
+ * discover_movies result
+ */
+export const DiscoverMoviesResultSchema = PageSchema.extend({
+    filters_applied: DiscoverFiltersSchema.extend({
+        min_year: z.number().optional(),
+        max_year: z.number().optional(),
+        min_vote_count: z.number().optional(),
+    }),
+    results: z.array(MovieListItemSchema),
+});
+export type DiscoverMoviesResult = z.infer<typeof DiscoverMoviesResultSchema>;
+
+/**
+ * discover_tv_shows result
+ */
+export const DiscoverTVShowsResultSchema = PageSchema.extend({
+    filters_applied: DiscoverFiltersSchema.extend({
+        with_networks: z.array(NamedIdSchema).optional(),
+        year: z.number().optional(),
+    }),
+    results: z.array(TVShowListItemSchema),
+});
+export type DiscoverTVShowsResult = z.infer<typeof DiscoverTVShowsResultSchema>;
+
+/**
+ * get_recommendations result
+ */
+export const MovieRecommendationsResultSchema = PageSchema.extend({
+    based_on_movie_id: z.number(),
+    recommendations: z.array(MovieListItemSchema),
+});
+export type MovieRecommendationsResult = z.infer<typeof MovieRecommendationsResultSchema>;
+
+/**
+ * get_tv_recommendations result
+ */
+export const TVRecommendationsResultSchema = PageSchema.extend({
+    based_on_tv_id: z.number(),
+    recommendations: z.array(TVShowListItemSchema),
+});
+export type TVRecommendationsResult = z.infer<typeof TVRecommendationsResultSchema>;
+
+/**
+ * Trending movie, TV show or person
+ */
+export const TrendingItemSchema = z.discriminatedUnion("media_type", [
+    z.object({
+        id: z.number(),
+        media_type: z.literal("movie"),
+        popularity: z.number(),
+        vote_average: z.number(),
+        title: z.string(),
+        release_date: z.string(),
+        genres: z.array(z.string()),
+        overview: z.string(),
+    }),
+    z.object({
+        id: z.number(),
+        media_type: z.literal("tv"),
+        popularity: z.number(),
+        vote_average: z.number(),
+        name: z.string(),
+        first_air_date: z.string(),
+        genres: z.array(z.string()),
+        overview: z.string(),
+    }),
+    z.object({
+        id: z.number(),
+        media_type: z.literal("person"),
+        popularity: z.number(),
+        name: z.string(),
+        known_for_department: z.string().nullable(),
+    }),
+]);
+export type TrendingItem = z.infer<typeof TrendingItemSchema>;
+
+/**
+ * get_trending result
+ */
+export const TrendingResultSchema = pageResultSchema(TrendingItemSchema).extend({
+    media_type: z.enum(["all", "movie", "tv", "person"]),
+    time_window: z.enum(["day", "week"]),
+});
+export type TrendingResult = z.infer<typeof TrendingResultSchema>;
+
+/**
+ * Release or air date window covered by a curated list
+ */
+const DateWindowSchema = z
+    .object({
+        minimum: z.string(),
+        maximum: z.string(),
+    })
+    .nullable();
+
+/**
+ * get_movie_list result
+ */
+export const MovieListResultSchema = pageResultSchema(MovieSummarySchema).extend({
+    list: z.string(),
+    region: z.string().optional(),
+    dates: DateWindowSchema,
+});
+export type MovieListResult = z.infer<typeof MovieListResultSchema>;
+
+/**
+ * get_tv_list result
+ */
+export const TVListResultSchema = pageResultSchema(TVShowSummarySchema).extend({
+    list: z.string(),
+    // Timezone the airing lists' dates are in; null for popular and top_rated
+    timezone: z.string().nullable(),
+    dates: DateWindowSchema,
+});
+export type TVListResult = z.infer<typeof TVListResultSchema>;
+
+// ---------------------------------------------------------------------------
+// Detail tool results
+// ---------------------------------------------------------------------------
+
+/**
+ * get_movie_details result
+ */
+export const MovieDetailsResultSchema = z
+    .object({
+        id: z.number(),
+        title: z.string(),
+        original_title: z.string(),
+        tagline: z.string().nullable(),
+        overview: z.string(),
+        release_date: z.string(),
+        runtime: z.number().nullable(),
+        status: z.string(),
+        budget: z.number(),
+        revenue: z.number(),
+        vote_average: z.number(),
+        vote_count: z.number(),
+        popularity: z.number(),
+        genres: z.array(TMDBGenreSchema),
+        collection: NamedIdSchema.nullable(),
+        production_companies: z.array(TMDBCompanySchema),
+        production_countries: TMDBMovieDetailsSchema.shape.production_countries,
+        spoken_languages: TMDBMovieDetailsSchema.shape.spoken_languages,
+        poster_path: ImageUrlSchema,
+        backdrop_path: ImageUrlSchema,
+        credits: CreditsSchema.optional(),
+    })
+    .extend(IncludedSectionsSchema.omit({ content_ratings: true }).shape)
+    .extend({ similar: z.array(MovieSummarySchema).optional() });
+export type MovieDetailsResult = z.infer<typeof MovieDetailsResultSchema>;
+
+/**
+ * get_tv_details result
+ */
+export const TVShowDetailsResultSchema = z
+    .object({
+        id: z.number(),
+        name: z.string(),
+        original_name: z.string(),
+        tagline: z.string(),
+        overview: z.string(),
+        first_air_date: z.string(),
+        last_air_date: z.string().nullable(),
+        status: z.string(),
+        type: z.string(),
+        number_of_seasons: z.number(),
+        number_of_episodes: z.number().nullable(),
+        episode_run_time: z.array(z.number()),
+        in_production: z.boolean(),
+        vote_average: z.number(),
+        vote_count: z.number(),
+        popularity: z.number(),
+        genres: z.array(TMDBGenreSchema),
+        created_by: TMDBTVShowDetailsSchema.shape.created_by,
+        networks: z.array(TMDBCompanySchema),
+        origin_country: z.array(z.string()),
+        languages: z.array(z.string()),
+        homepage: z.string(),
+        poster_path: ImageUrlSchema,
+        backdrop_path: ImageUrlSchema,
+        credits: CreditsSchema.optional(),
+    })
+    .extend(IncludedSectionsSchema.omit({ release_dates: true }).shape)
+    .extend({ similar: z.array(TVShowSummarySchema).optional() });
+export type TVShowDetailsResult = z.infer<typeof TVShowDetailsResultSchema>;
+
+/**
+ * get_person_details result
+ */
+export const PersonDetailsResultSchema = z
+    .object({
+        id: z.number(),
+        name: z.string(),
+        biography: z.string(),
+        birthday: z.string().nullable(),
+        deathday: z.string().nullable(),
+        place_of_birth: z.string().nullable(),
+        also_known_as: z.array(z.string()),
+        known_for_department: z.string().nullable(),
+        popularity: z.number(),
+        homepage: z.string().nullable(),
+        imdb_id: z.string().nullable(),
+        profile_path: ImageUrlSchema,
+        // Most popular titles only; get_person_credits returns the full filmography
+        credits: z
+            .object({
+                total_cast: z.number(),
+                total_crew: z.number(),
+                cast: z.array(PersonCastCreditSchema),
+                crew: z.array(PersonCrewCreditSchema),
+            })
+            .optional(),
+    })
+    .extend(IncludedSectionsSchema.pick({ images: true, external_ids: true }).shape);
+export type PersonDetailsResult = z.infer<typeof PersonDetailsResultSchema>;
+
+/**
+ * get_movie_credits result
+ */
+export const MovieCreditsResultSchema = CreditsSchema.extend({
+    movie_id: z.number(),
+});
+export type MovieCreditsResult = z.infer<typeof MovieCreditsResultSchema>;
+
+/**
+ * get_tv_credits result
+ */
+export const TVCreditsResultSchema = CreditsSchema.extend({
+    tv_id: z.number(),
+});
+export type TVCreditsResult = z.infer<typeof TVCreditsResultSchema>;
+
+/**
+ * get_person_credits result
+ */
+export const PersonCreditsResultSchema = z.object({
+    person_id: z.number(),
+    filters_applied: z.object({
+        media_type: z.enum(["all", "movie", "tv"]),
+        credit_type: z.enum(["all", "cast", "crew"]),
+        department: z.string().optional(),
+        job: z.string().optional(),
+        sort_by: z.string(),
+    }),
+    total_cast: z.number(),
+    total_crew: z.number(),
+    cast: z.array(PersonCastCreditSchema),
+    crew: z.array(PersonCrewCreditSchema),
+});
+export type PersonCreditsResult = z.infer<typeof PersonCreditsResultSchema>;
+
+/**
+ * get_tv_season result
+ */
+export const TVSeasonResultSchema = z.object({
+    tv_id: z.number(),
+    id: z.number(),
+    season_number: z.number(),
+    name: z.string(),
+    overview: z.string(),
+    air_date: z.string().nullable(),
+    vote_average: z.number(),
+    episode_count: z.number(),
+    total_runtime: z.number(),
+    poster_path: ImageUrlSchema,
+    episodes: z.array(
+        z.object({
+            id: z.number(),
+            episode_number: z.number(),
+            name: z.string(),
+            air_date: z.string().nullable(),
+            runtime: z.number().nullable(),
+            episode_type: z.string().optional(),
+            vote_average: z.number(),
+            vote_count: z.number(),
+            overview: z.string(),
+            crew: z.array(EpisodeCrewMemberSchema),
+            guest_stars: z.array(GuestStarSchema),
+        })
+    ),
+});
+export type TVSeasonResult = z.infer<typeof TVSeasonResultSchema>;
+
+/**
+ * get_tv_episode result
+ */
+export const TVEpisodeResultSchema = z.object({
+    tv_id: z.number(),
+    id: z.number(),
+    season_number: z.number(),
+    episode_number: z.number(),
+    name: z.string(),
+    overview: z.string(),
+    air_date: z.string().nullable(),
+    runtime: z.number().nullable(),
+    episode_type: z.string().optional(),
+    production_code: z.string().optional(),
+    vote_average: z.number(),
+    vote_count: z.number(),
+    crew: z.array(EpisodeCrewMemberSchema),
+    guest_stars: z.array(GuestStarSchema),
+    still_path: ImageUrlSchema,
+});
+export type TVEpisodeResult = z.infer<typeof TVEpisodeResultSchema>;
+
+// ---------------------------------------------------------------------------
+// Media, availability and rating tool results
+// ---------------------------------------------------------------------------
+
+/**
+ * get_watch_providers result
+ */
+export const WatchProvidersResultSchema = WatchAvailabilitySchema.extend({
+    media_type: z.enum(["movie", "tv"]),
+    id: z.number(),
+    message: z.string().optional(), // Explains why nothing is available
+});
+export type WatchProvidersResult = z.infer<typeof WatchProvidersResultSchema>;
+
+/**
+ * list_watch_providers result
+ */
+export const WatchProviderListResultSchema = z.object({
+    media_type: z.enum(["movie", "tv"]),
+    region: z.string(),
+    total_results: z.number(),
+    providers: z.array(WatchProviderSchema),
+});
+export type WatchProviderListResult = z.infer<typeof WatchProviderListResultSchema>;
+
+/**
+ * Image list in get_images, with the size used and the sizes available
+ */
+const SizedImageListSchema = ImageListSchema.extend({
+    size: z.string(),
+    available_sizes: z.array(z.string()),
+});
+
+/**
+ * get_images result
+ */
+export const ImagesResultSchema = z.object({
+    media_type: z.enum(["movie", "tv", "person"]),
+    id: z.number(),
+    season_number: z.number().optional(),
+    episode_number: z.number().optional(),
+    language: z.string().optional(),
+    posters: SizedImageListSchema.optional(),
+    backdrops: SizedImageListSchema.optional(),
+    logos: SizedImageListSchema.optional(),
+    profiles: SizedImageListSchema.optional(),
+    stills: SizedImageListSchema.optional(),
+});
+export type ImagesResult = z.infer<typeof ImagesResultSchema>;
+
+/**
+ * get_videos result
+ */
+export const VideosResultSchema = VideoListSchema.extend({
+    media_type: z.enum(["movie", "tv"]),
+    id: z.number(),
+    season_number: z.number().optional(),
+    language: z.string(),
+});
+export type VideosResult = z.infer<typeof VideosResultSchema>;
+
+/**
+ * get_reviews result
+ */
+export const ReviewsResultSchema = PageSchema.extend({
+    media_type: z.enum(["movie", "tv"]),
+    id: z.number(),
+    average_rating: z.number().nullable(), // Across the ratings on this page
+    reviews: z.array(
+        z.object({
+            id: z.string(),
+            author: z.string(),
+            username: z.string(),
+            rating: z.number().nullable(),
+            created_at: z.string(),
+            updated_at: z.string(),
+            content: z.string(),
+            content_length: z.number(),
+            truncated: z.boolean(),
+            url: z.string(),
+        })
+    ),
+});
+export type ReviewsResult = z.infer<typeof ReviewsResultSchema>;
+
+/**
+ * get_release_info result; movies list releases by country, TV shows list ratings
+ */
+export const ReleaseInfoResultSchema = z.object({
+    media_type: z.enum(["movie", "tv"]),
+    id: z.number(),
+    region: z.string().optional(),
+    countries: z.array(CountryReleasesSchema).optional(),
+    ratings: z.array(ContentRatingSchema).optional(),
+});
+export type ReleaseInfoResult = z.infer<typeof ReleaseInfoResultSchema>;
+
+/**
+ * list_certifications result
+ */
+export const CertificationListResultSchema = z.object({
+    media_type: z.enum(["movie", "tv"]),
+    region: z.string().optional(),
+    countries: z.array(
+        z.object({
+            country: z.string(),
+            // Ordered from least to most restrictive
+            certifications: z.array(
+                z.object({
+                    certification: z.string(),
+                    meaning: z.string(),
+                })
+            ),
+        })
+    ),
+});
+export type CertificationListResult = z.infer<typeof CertificationListResultSchema>;
+
+// ---------------------------------------------------------------------------
+// Genre, keyword, collection, external ID and company tool results
+// ---------------------------------------------------------------------------
+
+/**
+ * list_genres result
+ */
+export const GenreListResultSchema = z.object({
+    media_type: z.enum(["movie", "tv"]),
+    genres: z.array(NamedIdSchema),
+});
+export type GenreListResult = z.infer<typeof GenreListResultSchema>;
+
+/**
+ * search_keywords result
+ */
+export const SearchKeywordsResultSchema = pageResultSchema(NamedIdSchema);
+export type SearchKeywordsResult = z.infer<typeof SearchKeywordsResultSchema>;
+
+/**
+ * get_keywords result
+ */
+export const KeywordsResultSchema = z.object({
+    media_type: z.enum(["movie", "tv"]),
+    id: z.number(),
+    keywords: z.array(NamedIdSchema),
+});
+export type KeywordsResult = z.infer<typeof KeywordsResultSchema>;
+
+/**
+ * search_collections result
+ */
+export const SearchCollectionsResultSchema = pageResultSchema(
+    z.object({
+        id: z.number(),
+        name: z.string(),
+        overview: z.string(),
+        poster_path: ImageUrlSchema,
+    })
+);
+export type SearchCollectionsResult = z.infer<typeof SearchCollectionsResultSchema>;
+
+/**
+ * get_collection result
+ */
+export const CollectionResultSchema = z.object({
+    id: z.number(),
+    name: z.string(),
+    overview: z.string(),
+    poster_path: ImageUrlSchema,
+    backdrop_path: ImageUrlSchema,
+    // Totals cover released movies only
+    stats: z.object({
+        total_movies: z.number(),
+        released_movies: z.number(),
+        total_runtime: z.number(),
+        average_rating: z.number().nullable(),
+        total_budget: z.number(),
+        total_revenue: z.number(),
+    }),
+    parts: z.array(
+        z.object({
+            order: z.number(),
+            id: z.number(),
+            title: z.string(),
+            release_date: z.string().nullable(),
+            status: z.string(),
+            runtime: z.number().nullable(),
+            vote_average: z.number(),
+            vote_count: z.number(),
+            budget: z.number(),
+            revenue: z.number(),
+            overview: z.string(),
+        })
+    ),
+});
+export type CollectionResult = z.infer<typeof CollectionResultSchema>;
+
+/**
+ * find_by_external_id result
+ */
+export const FindByExternalIdResultSchema = z.object({
+    external_id: z.string(),
+    external_source: z.string(),
+    total_results: z.number(),
+    movies: z.array(MovieSummarySchema),
+    tv_shows: z.array(TVShowSummarySchema),
+    people: z.array(PersonSummarySchema),
+    seasons: z.array(
+        z.object({
+            id: z.number(),
+            show_id: z.number(),
+            season_number: z.number(),
+            name: z.string(),
+            air_date: z.string().nullable(),
+            poster_path: ImageUrlSchema,
+        })
+    ),
+    episodes: z.array(
+        z.object({
+            id: z.number(),
+            show_id: z.number(),
+            season_number: z.number(),
+            episode_number: z.number(),
+            name: z.string(),
+            air_date: z.string().nullable(),
+            overview: z.string(),
+        })
+    ),
+});
+export type FindByExternalIdResult = z.infer<typeof FindByExternalIdResultSchema>;
+
+/**
+ * get_external_ids result
+ */
+export const ExternalIdsResultSchema = ExternalIdListSchema.extend({
+    media_type: z.enum(["movie", "tv", "person"]),
+    id: z.number(),
+    season_number: z.number().optional(),
+    episode_number: z.number().optional(),
+});
+export type ExternalIdsResult = z.infer<typeof ExternalIdsResultSchema>;
+
+/**
+ * Production company or TV network summary
+ */
+export const CompanySummarySchema = z.object({
+    id: z.number(),
+    name: z.string(),
+    origin_country: z.string().nullable(),
+    logo_path: ImageUrlSchema,
+});
+export type CompanySummary = z.infer<typeof CompanySummarySchema>;
+
+/**
+ * search_companies result
+ */
+export const SearchCompaniesResultSchema = pageResultSchema(CompanySummarySchema);
+export type SearchCompaniesResult = z.infer<typeof SearchCompaniesResultSchema>;
+
+/**
+ * get_company_details result
+ */
+export const CompanyDetailsResultSchema = CompanySummarySchema.extend({
+    description: z.string().nullable(),
+    headquarters: z.string().nullable(),
+    homepage: z.string().nullable(),
+    parent_company: CompanySummarySchema.nullable(),
+});
+export type CompanyDetailsResult = z.infer<typeof CompanyDetailsResultSchema>;
+
+/**
+ * get_network_details result
+ */
+export const NetworkDetailsResultSchema = CompanySummarySchema.extend({
+    headquarters: z.string().nullable(),
+    homepage: z.string().nullable(),
+});
+export type NetworkDetailsResult = z.infer<typeof NetworkDetailsResultSchema>;
@@ -1,91 +1,212 @@
 /**
  * TMDB API Response Types
  * Based on The Movie Database API v3
+ *
+ * Each response shape is a Zod schema; the client validates responses against it so
+ * changes in TMDB's API surface as clear errors. Types are inferred from the schemas.
  */
 
-export interface TMDBMovie {
-    id: number;
-    title: string;
-    original_title: string;
-    overview: string;
-    release_date: string;
-    poster_path: string | null;
-    backdrop_path: string | null;
-    vote_average: number;
-    vote_count: number;
-    popularity: number;
-    adult: boolean;
-    genre_ids?: number[];
-    original_language: string;
-    video: boolean;
-}
+import { z } from "zod";
 
-export interface TMDBMovieDetails extends TMDBMovie {
-    budget: number;
-    revenue: number;
-    runtime: number | null;
-    status: string;
-    tagline: string | null;
-    genres: Array<{ id: number; name: string }>;
-    production_companies: Array<{
-        id: number;
-        name: string;
-        logo_path: string | null;
-        origin_country: string;
-    }>;
-    production_countries: Array<{
-        iso_3166_1: string;
-        name: string;
-    }>;
-    spoken_languages: Array<{
-        iso_639_1: string;
-        name: string;
-        english_name: string;
-    }>;
-}
+/**
+ * Genre, e.g. { id: 28, name: "Action" }
+ * Movie and TV genre lists differ (e.g. TV has "Action & Adventure" instead of "Action")
+ */
+export const TMDBGenreSchema = z.object({
+    id: z.number(),
+    name: z.string(),
+});
+export type TMDBGenre = z.infer<typeof TMDBGenreSchema>;
 
-export interface TMDBTVShow {
-    id: number;
-    name: string;
-    original_name: string;
-    overview: string;
-    first_air_date: string;
-    poster_path: string | null;
-    backdrop_path: string | null;
-    vote_average: number;
-    vote_count: number;
-    popularity: number;
-    genre_ids?: number[];
-    origin_country: string[];
-    original_language: string;
-}
+/**
+ * Genre list for movies or TV
+ */
+export const TMDBGenreListResponseSchema = z.object({
+    genres: z.array(TMDBGenreSchema),
+});
+export type TMDBGenreListResponse = z.infer<typeof TMDBGenreListResponseSchema>;
 
-export interface TMDBTVShowDetails extends TMDBTVShow {
-    created_by: Array<{
-        id: number;
-        name: string;
-        credit_id: string;
-        gender: number;
-        profile_path: string | null;
-    }>;
-    episode_run_time: number[];
-    genres: Array<{ id: number; name: string }>;
-    homepage: string;
-    in_production: boolean;
-    languages: string[];
-    last_air_date: string;
-    number_of_episodes: number;
-    number_of_seasons: number;
-    status: string;
-    tagline: string;
-    type: string;
-    networks: Array<{
-        id: number;
-        name: string;
-        logo_path: string | null;
-        origin_country: string;
-    }>;
-}
+/**
+ * Production company or TV network summary
+ */
+export const TMDBCompanySchema = z.object({
+    id: z.number(),
+    name: z.string(),
+    logo_path: z.string().nullable(),
+    origin_country: z.string(),
+});
+export type TMDBCompany = z.infer<typeof TMDBCompanySchema>;
+
+/**
+ * Collection (franchise) summary, e.g. "Mission: Impossible Collection"
+ */
+export const TMDBCollectionSchema = z.object({
+    id: z.number(),
+    name: z.string(),
+    poster_path: z.string().nullable(),
+    backdrop_path: z.string().nullable(),
+});
+export type TMDBCollection = z.infer<typeof TMDBCollectionSchema>;
+
+export const TMDBMovieSchema = z.object({
+    id: z.number(),
+    title: z.string(),
+    original_title: z.string(),
+    overview: z.string(),
+    release_date: z.string().default(""), // "" or missing when unknown
+    poster_path: z.string().nullable(),
+    backdrop_path: z.string().nullable(),
+    vote_average: z.number(),
+    vote_count: z.number(),
+    popularity: z.number(),
+    adult: z.boolean(),
+    genre_ids: z.array(z.number()).optional(),
+    original_language: z.string(),
+    video: z.boolean(),
+});
+export type TMDBMovie = z.infer<typeof TMDBMovieSchema>;
+
+export const TMDBMovieDetailsSchema = TMDBMovieSchema.extend({
+    belongs_to_collection: TMDBCollectionSchema.nullable(),
+    budget: z.number(),
+    revenue: z.number(),
+    runtime: z.number().nullable(),
+    status: z.string(),
+    tagline: z.string().nullable(),
+    genres: z.array(TMDBGenreSchema),
+    production_companies: z.array(TMDBCompanySchema),
+    production_countries: z.array(
+        z.object({
+            iso_3166_1: z.string(),
+            name: z.string(),
+        })
+    ),
+    spoken_languages: z.array(
+        z.object({
+            iso_639_1: z.string(),
+            name: z.string(),
+            english_name: z.string(),
+        })
+    ),
+});
+export type TMDBMovieDetails = z.infer<typeof TMDBMovieDetailsSchema>;
+
+export const TMDBTVShowSchema = z.object({
+    id: z.number(),
+    name: z.string(),
+    original_name: z.string(),
+    overview: z.string(),
+    first_air_date: z.string().default(""), // "" or missing when unknown
+    poster_path: z.string().nullable(),
+    backdrop_path: z.string().nullable(),
+    vote_average: z.number(),
+    vote_count: z.number(),
+    popularity: z.number(),
+    genre_ids: z.array(z.number()).optional(),
+    origin_country: z.array(z.string()),
+    original_language: z.string(),
+});
+export type TMDBTVShow = z.infer<typeof TMDBTVShowSchema>;
+
+export const TMDBTVShowDetailsSchema = TMDBTVShowSchema.extend({
+    created_by: z.array(
+        z.object({
+            id: z.number(),
+            name: z.string(),
+            credit_id: z.string(),
+            gender: z.number().nullable(),
+            profile_path: z.string().nullable(),
+        })
+    ),
+    episode_run_time: z.array(z.number()),
+    genres: z.array(TMDBGenreSchema),
+    homepage: z.string(),
+    in_production: z.boolean(),
+    languages: z.array(z.string()),
+    last_air_date: z.string().nullable(),
+    number_of_episodes: z.number().nullable(),
+    number_of_seasons: z.number(),
+    status: z.string(),
+    tagline: z.string(),
+    type: z.string(),
+    networks: z.array(TMDBCompanySchema),
+});
+export type TMDBTVShowDetails = z.infer<typeof TMDBTVShowDetailsSchema>;
+
+/**
+ * Cast member in movie, TV or episode credits
+ */
+export const TMDBCastMemberSchema = z.object({
+    id: z.number(),
+    name: z.string(),
+    character: z.string(),
+    credit_id: z.string(),
+    order: z.number(), // Billing order (0 = top billing)
+    profile_path: z.string().nullable(),
+    gender: z.number().nullable(),
+    known_for_department: z.string().nullable(),
+});
+export type TMDBCastMember = z.infer<typeof TMDBCastMemberSchema>;
+
+/**
+ * Crew member in movie, TV or episode credits
+ */
+export const TMDBCrewMemberSchema = z.object({
+    id: z.number(),
+    name: z.string(),
+    job: z.string(), // "Producer", "Writer", "Director of Photography"
+    department: z.string(), // "Production", "Writing", "Camera"
+    credit_id: z.string(),
+    profile_path: z.string().nullable(),
+    gender: z.number().nullable(),
+});
+export type TMDBCrewMember = z.infer<typeof TMDBCrewMemberSchema>;
+
+/**
+ * Credits response for a movie or TV show
+ */
+export const TMDBCreditsResponseSchema = z.object({
+    id: z.number(), // Movie or TV show ID
+    cast: z.array(TMDBCastMemberSchema),
+    crew: z.array(TMDBCrewMemberSchema),
+});
+export type TMDBCreditsResponse = z.infer<typeof TMDBCreditsResponseSchema>;
+
+/**
+ * TV episode (returned in season details and by the episode endpoint)
+ */
+export const TMDBTVEpisodeSchema = z.object({
+    id: z.number(),
+    name: z.string(),
+    overview: z.string(),
+    air_date: z.string().nullable(),
+    episode_number: z.number(),
+    episode_type: z.string().optional(), // "standard", "mid_season", "finale"
+    season_number: z.number(),
+    runtime: z.number().nullable(),
+    still_path: z.string().nullable(),
+    vote_average: z.number(),
+    vote_count: z.number(),
+    production_code: z.string().optional(),
+    crew: z.array(TMDBCrewMemberSchema),
+    guest_stars: z.array(TMDBCastMemberSchema),
+});
+export type TMDBTVEpisode = z.infer<typeof TMDBTVEpisodeSchema>;
+
+/**
+ * TV season details with its episode list
+ */
+export const TMDBTVSeasonDetailsSchema = z.object({
+    id: z.number(),
+    name: z.string(),
+    overview: z.string(),
+    air_date: z.string().nullable(),
+    season_number: z.number(),
+    poster_path: z.string().nullable(),
+    vote_average: z.number(),
+    episodes: z.array(TMDBTVEpisodeSchema),
+});
+export type TMDBTVSeasonDetails = z.infer<typeof TMDBTVSeasonDetailsSchema>;
 
 export interface TMDBSearchResponse<T> {
     page: number;
@@ -94,98 +215,545 @@ export interface TMDBSearchResponse<T> {
     total_results: number;
 }
 
+/**
+ * Schema for a paginated response of the given items
+ */
+export function searchResponseSchema<T extends z.ZodType>(item: T) {
+    return z.object({
+        page: z.number(),
+        results: z.array(item),
+        total_pages: z.number(),
+        total_results: z.number(),
+    });
+}
+
+/**
+ * Paginated list with the release date window it covers (now playing and upcoming movies)
+ */
+export interface TMDBDatedListResponse<T> extends TMDBSearchResponse<T> {
+    dates?: {
+        minimum: string;
+        maximum: string;
+    };
+}
+
+/**
+ * Schema for a paginated list of the given items with an optional date window
+ */
+export function datedListResponseSchema<T extends z.ZodType>(item: T) {
+    return searchResponseSchema(item).extend({
+        dates: z
+            .object({
+                minimum: z.string(),
+                maximum: z.string(),
+            })
+            .optional(),
+    });
+}
+
 export interface TMDBError {
     status_code: number;
     status_message: string;
     success: boolean;
 }
 
+/**
+ * Movie or TV show a person is known for
+ */
+export const TMDBKnownForSchema = z.discriminatedUnion("media_type", [
+    TMDBMovieSchema.extend({ media_type: z.literal("movie") }),
+    TMDBTVShowSchema.extend({ media_type: z.literal("tv") }),
+]);
+export type TMDBKnownFor = z.infer<typeof TMDBKnownForSchema>;
+
 /**
  * Person from search results
  */
-export interface TMDBPerson {
-    id: number;
-    name: string;
-    profile_path: string | null;
-    adult: boolean;
-    popularity: number;
-    gender: number; // 0=Not set, 1=Female, 2=Male, 3=Non-binary
-    known_for_department: string; // "Acting", "Directing", etc.
-    known_for: Array<TMDBMovie | TMDBTVShow>; // Movies/TV they're known for
-}
+export const TMDBPersonSchema = z.object({
+    id: z.number(),
+    name: z.string(),
+    profile_path: z.string().nullable(),
+    adult: z.boolean(),
+    popularity: z.number(),
+    gender: z.number().nullable(), // 0=Not set, 1=Female, 2=Male, 3=Non-binary
+    known_for_department: z.string().nullable(), // "Acting", "Directing", etc.
+    known_for: z.array(TMDBKnownForSchema).optional(), // Movies/TV they're known for
+});
+export type TMDBPerson = z.infer<typeof TMDBPersonSchema>;
 
 /**
- * Cast member in movie credits
+ * Multi-search result (movie, TV show, or person tagged with media_type)
  */
-export interface TMDBCastMember {
-    id: number;
-    name: string;
-    character: string;
-    credit_id: string;
-    order: number; // Billing order (0 = top billing)
-    profile_path: string | null;
-    gender: number;
-    known_for_department: string;
-}
+export const TMDBMultiSearchResultSchema = z.discriminatedUnion("media_type", [
+    TMDBMovieSchema.extend({ media_type: z.literal("movie") }),
+    TMDBTVShowSchema.extend({ media_type: z.literal("tv") }),
+    TMDBPersonSchema.extend({ media_type: z.literal("person") }),
+]);
+export type TMDBMultiSearchResult = z.infer<typeof TMDBMultiSearchResultSchema>;
 
 /**
- * Crew member in movie credits
+ * Trending item (movie, TV show, or person tagged with media_type)
  */
-export interface TMDBCrewMember {
-    id: number;
-    name: string;
-    job: string; // "Producer", "Writer", "Director of Photography"
-    department: string; // "Production", "Writing", "Camera"
-    credit_id: string;
-    profile_path: string | null;
-    gender: number;
-}
+export const TMDBTrendingItemSchema = TMDBMultiSearchResultSchema;
+export type TMDBTrendingItem = TMDBMultiSearchResult;
 
 /**
- * Credits response for a movie
+ * Person details (comprehensive biographical information)
  */
-export interface TMDBCreditsResponse {
-    id: number; // Movie ID
-    cast: TMDBCastMember[];
-    crew: TMDBCrewMember[];
-}
+export const TMDBPersonDetailsSchema = z.object({
+    id: z.number(),
+    name: z.string(),
+    biography: z.string(),
+    birthday: z.string().nullable(), // "1956-07-09"
+    deathday: z.string().nullable(), // null if living
+    place_of_birth: z.string().nullable(),
+    also_known_as: z.array(z.string()), // Alternative names
+    known_for_department: z.string().nullable(), // "Acting", "Directing"
+    homepage: z.string().nullable(), // Official website
+    imdb_id: z.string().nullable(), // "nm0000158"
+    profile_path: z.string().nullable(),
+    popularity: z.number(),
+    adult: z.boolean(),
+    gender: z.number().nullable(), // 0=Not set, 1=Female, 2=Male, 3=Non-binary
+});
+export type TMDBPersonDetails = z.infer<typeof TMDBPersonDetailsSchema>;
 
 /**
- * Trending item (can be movie, TV, or person with media_type)
- */
-export interface TMDBTrendingItem {
-    media_type: "movie" | "tv" | "person";
-    id: number;
-    popularity: number;
-    vote_average?: number;
-    // Movie-specific fields
-    title?: string;
-    release_date?: string;
-    // TV-specific fields
-    name?: string;
-    first_air_date?: string;
-    // Person-specific fields
-    known_for_department?: string;
-    // Additional dynamic fields
-    [key: string]: any;
-}
+ * Fields shared by a person's cast and crew credits
+ * Movie credits carry title/release_date, TV credits carry name/first_air_date
+ */
+const TMDBPersonCreditBaseSchema = z.object({
+    id: z.number(), // Movie or TV show ID
+    credit_id: z.string(),
+    media_type: z.enum(["movie", "tv"]).optional(), // Only present in combined credits
+    title: z.string().optional(),
+    original_title: z.string().optional(),
+    release_date: z.string().optional(),
+    name: z.string().optional(),
+    original_name: z.string().optional(),
+    first_air_date: z.string().optional(),
+    overview: z.string(),
+    poster_path: z.string().nullable(),
+    vote_average: z.number(),
+    vote_count: z.number(),
+    popularity: z.number(),
+    episode_count: z.number().optional(), // TV only
+});
 
 /**
- * Person details (comprehensive biographical information)
+ * Acting credit for a person
  */
-export interface TMDBPersonDetails {
-    id: number;
-    name: string;
-    biography: string;
-    birthday: string | null; // "1956-07-09"
-    deathday: string | null; // null if living
-    place_of_birth: string | null;
-    also_known_as: string[]; // Alternative names
-    known_for_department: string; // "Acting", "Directing"
-    homepage: string | null; // Official website
-    imdb_id: string; // "nm0000158"
-    profile_path: string | null;
-    popularity: number;
-    adult: boolean;
-    gender: number; // 0=Not set, 1=Female, 2=Male, 3=Non-binary
-}
+export const TMDBPersonCastCreditSchema = TMDBPersonCreditBaseSchema.extend({
+    character: z.string(),
+    order: z.number().optional(),
+});
+export type TMDBPersonCastCredit = z.infer<typeof TMDBPersonCastCreditSchema>;
+
+/**
+ * Crew credit for a person
+ */
+export const TMDBPersonCrewCreditSchema = TMDBPersonCreditBaseSchema.extend({
+    job: z.string(), // "Director", "Screenplay"
+    department: z.string(), // "Directing", "Writing"
+});
+export type TMDBPersonCrewCredit = z.infer<typeof TMDBPersonCrewCreditSchema>;
+
+/**
+ * Movie, TV or combined credits for a person
+ */
+export const TMDBPersonCreditsResponseSchema = z.object({
+    id: z.number(), // Person ID
+    cast: z.array(TMDBPersonCastCreditSchema),
+    crew: z.array(TMDBPersonCrewCreditSchema),
+});
+export type TMDBPersonCreditsResponse = z.infer<typeof TMDBPersonCreditsResponseSchema>;
+
+/**
+ * Streaming/rental provider offering a title
+ */
+export const TMDBWatchProviderSchema = z.object({
+    provider_id: z.number(),
+    provider_name: z.string(),
+    logo_path: z.string().nullable(),
+    display_priority: z.number(),
+});
+export type TMDBWatchProvider = z.infer<typeof TMDBWatchProviderSchema>;
+
+/**
+ * Watch providers for a title in one region, grouped by offer type
+ */
+export const TMDBWatchProviderRegionSchema = z.object({
+    link: z.string(), // TMDB watch page (attribution required by JustWatch)
+    flatrate: z.array(TMDBWatchProviderSchema).optional(), // Subscription streaming
+    rent: z.array(TMDBWatchProviderSchema).optional(),
+    buy: z.array(TMDBWatchProviderSchema).optional(),
+    free: z.array(TMDBWatchProviderSchema).optional(),
+    ads: z.array(TMDBWatchProviderSchema).optional(),
+});
+export type TMDBWatchProviderRegion = z.infer<typeof TMDBWatchProviderRegionSchema>;
+
+/**
+ * Watch providers for a movie or TV show, keyed by ISO 3166-1 region code
+ */
+export const TMDBWatchProvidersResponseSchema = z.object({
+    id: z.number(),
+    results: z.record(z.string(), TMDBWatchProviderRegionSchema),
+});
+export type TMDBWatchProvidersResponse = z.infer<typeof TMDBWatchProvidersResponseSchema>;
+
+/**
+ * Watch providers available in a region
+ */
+export const TMDBWatchProviderListResponseSchema = z.object({
+    results: z.array(
+        TMDBWatchProviderSchema.extend({
+            display_priorities: z.record(z.string(), z.number()),
+        })
+    ),
+});
+export type TMDBWatchProviderListResponse = z.infer<typeof TMDBWatchProviderListResponseSchema>;
+
+/**
+ * Image settings from the /configuration endpoint
+ */
+export const TMDBImageConfigurationSchema = z.object({
+    base_url: z.string(),
+    secure_base_url: z.string(), // "https://image.tmdb.org/t/p/"
+    backdrop_sizes: z.array(z.string()), // ["w300", "w780", "w1280", "original"]
+    logo_sizes: z.array(z.string()),
+    poster_sizes: z.array(z.string()),
+    profile_sizes: z.array(z.string()),
+    still_sizes: z.array(z.string()),
+});
+export type TMDBImageConfiguration = z.infer<typeof TMDBImageConfigurationSchema>;
+
+/**
+ * API configuration (image base URL and sizes)
+ */
+export const TMDBConfigurationSchema = z.object({
+    images: TMDBImageConfigurationSchema,
+    change_keys: z.array(z.string()),
+});
+export type TMDBConfiguration = z.infer<typeof TMDBConfigurationSchema>;
+
+/**
+ * Image file for a movie, TV show, season, episode or person
+ */
+export const TMDBImageSchema = z.object({
+    file_path: z.string(),
+    width: z.number(),
+    height: z.number(),
+    aspect_ratio: z.number(),
+    iso_639_1: z.string().nullable(), // null for images without text
+    vote_average: z.number(),
+    vote_count: z.number(),
+});
+export type TMDBImage = z.infer<typeof TMDBImageSchema>;
+
+/**
+ * Images response; which lists are present depends on the endpoint
+ */
+export const TMDBImagesResponseSchema = z.object({
+    id: z.number(),
+    posters: z.array(TMDBImageSchema).optional(),
+    backdrops: z.array(TMDBImageSchema).optional(),
+    logos: z.array(TMDBImageSchema).optional(),
+    profiles: z.array(TMDBImageSchema).optional(), // People
+    stills: z.array(TMDBImageSchema).optional(), // Episodes
+});
+export type TMDBImagesResponse = z.infer<typeof TMDBImagesResponseSchema>;
+
+/**
+ * Video (trailer, teaser, clip, ...) hosted on YouTube or Vimeo
+ */
+export const TMDBVideoSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    key: z.string(), // Video ID on the hosting site
+    site: z.string(), // "YouTube", "Vimeo"
+    size: z.number(), // Resolution: 360, 480, 720, 1080, 2160
+    type: z.string(), // "Trailer", "Teaser", "Clip", "Featurette", "Behind the Scenes", "Bloopers"
+    official: z.boolean(),
+    published_at: z.string(),
+    iso_639_1: z.string(),
+    iso_3166_1: z.string(),
+});
+export type TMDBVideo = z.infer<typeof TMDBVideoSchema>;
+
+/**
+ * Videos for a movie, TV show or TV season
+ */
+export const TMDBVideosResponseSchema = z.object({
+    id: z.number().optional(),
+    results: z.array(TMDBVideoSchema),
+});
+export type TMDBVideosResponse = z.infer<typeof TMDBVideosResponseSchema>;
+
+/**
+ * User review for a movie or TV show
+ */
+export const TMDBReviewSchema = z.object({
+    id: z.string(),
+    author: z.string(),
+    author_details: z.object({
+        name: z.string(),
+        username: z.string(),
+        avatar_path: z.string().nullable(),
+        rating: z.number().nullable(), // 0-10, null if the author didn't rate
+    }),
+    content: z.string(), // Markdown
+    created_at: z.string(),
+    updated_at: z.string(),
+    url: z.string(),
+});
+export type TMDBReview = z.infer<typeof TMDBReviewSchema>;
+
+/**
+ * Keyword (theme or topic tag, e.g. "time loop", "heist")
+ */
+export const TMDBKeywordSchema = z.object({
+    id: z.number(),
+    name: z.string(),
+});
+export type TMDBKeyword = z.infer<typeof TMDBKeywordSchema>;
+
+/**
+ * Keywords for a movie (keywords) or TV show (results)
+ */
+export const TMDBKeywordsResponseSchema = z.object({
+    id: z.number(),
+    keywords: z.array(TMDBKeywordSchema).optional(),
+    results: z.array(TMDBKeywordSchema).optional(),
+});
+export type TMDBKeywordsResponse = z.infer<typeof TMDBKeywordsResponseSchema>;
+
+/**
+ * Collection search result
+ */
+export const TMDBCollectionSearchResultSchema = TMDBCollectionSchema.extend({
+    overview: z.string(),
+    original_name: z.string().optional(),
+});
+export type TMDBCollectionSearchResult = z.infer<typeof TMDBCollectionSearchResultSchema>;
+
+/**
+ * Collection details with every movie in it
+ */
+export const TMDBCollectionDetailsSchema = TMDBCollectionSchema.extend({
+    overview: z.string(),
+    parts: z.array(TMDBMovieSchema),
+});
+export type TMDBCollectionDetails = z.infer<typeof TMDBCollectionDetailsSchema>;
+
+/**
+ * Movie release in one country
+ * type: 1 Premiere, 2 Theatrical (limited), 3 Theatrical, 4 Digital, 5 Physical, 6 TV
+ */
+export const TMDBReleaseDateSchema = z.object({
+    certification: z.string(),
+    descriptors: z.array(z.string()).default([]),
+    iso_639_1: z.string(),
+    note: z.string(),
+    release_date: z.string(),
+    type: z.number(),
+});
+export type TMDBReleaseDate = z.infer<typeof TMDBReleaseDateSchema>;
+
+/**
+ * Movie release dates grouped by country
+ */
+export const TMDBReleaseDatesResponseSchema = z.object({
+    id: z.number(),
+    results: z.array(
+        z.object({
+            iso_3166_1: z.string(),
+            release_dates: z.array(TMDBReleaseDateSchema),
+        })
+    ),
+});
+export type TMDBReleaseDatesResponse = z.infer<typeof TMDBReleaseDatesResponseSchema>;
+
+/**
+ * TV content rating in one country
+ */
+export const TMDBContentRatingSchema = z.object({
+    descriptors: z.array(z.string()).default([]),
+    iso_3166_1: z.string(),
+    rating: z.string(),
+});
+export type TMDBContentRating = z.infer<typeof TMDBContentRatingSchema>;
+
+/**
+ * TV content ratings by country
+ */
+export const TMDBContentRatingsResponseSchema = z.object({
+    id: z.number(),
+    results: z.array(TMDBContentRatingSchema),
+});
+export type TMDBContentRatingsResponse = z.infer<typeof TMDBContentRatingsResponseSchema>;
+
+/**
+ * Certification in a country's rating system, e.g. US "PG-13"
+ */
+export const TMDBCertificationSchema = z.object({
+    certification: z.string(),
+    meaning: z.string(),
+    order: z.number(),
+});
+export type TMDBCertification = z.infer<typeof TMDBCertificationSchema>;
+
+/**
+ * Certification systems keyed by ISO 3166-1 country code
+ */
+export const TMDBCertificationsResponseSchema = z.object({
+    certifications: z.record(z.string(), z.array(TMDBCertificationSchema)),
+});
+export type TMDBCertificationsResponse = z.infer<typeof TMDBCertificationsResponseSchema>;
+
+/**
+ * External ID sources accepted by the find endpoint
+ */
+export const TMDBExternalSourceSchema = z.enum([
+    "imdb_id",
+    "tvdb_id",
+    "wikidata_id",
+    "facebook_id",
+    "instagram_id",
+    "tiktok_id",
+    "twitter_id",
+    "youtube_id",
+]);
+export type TMDBExternalSource = z.infer<typeof TMDBExternalSourceSchema>;
+
+/**
+ * Results of looking up an external ID, grouped by type
+ */
+export const TMDBFindResponseSchema = z.object({
+    movie_results: z.array(TMDBMovieSchema),
+    tv_results: z.array(TMDBTVShowSchema),
+    person_results: z.array(TMDBPersonSchema),
+    tv_season_results: z.array(
+        z.object({
+            id: z.number(),
+            name: z.string(),
+            show_id: z.number(),
+            season_number: z.number(),
+            air_date: z.string().nullable(),
+            poster_path: z.string().nullable(),
+        })
+    ),
+    tv_episode_results: z.array(
+        z.object({
+            id: z.number(),
+            name: z.string(),
+            show_id: z.number(),
+            season_number: z.number(),
+            episode_number: z.number(),
+            air_date: z.string().nullable(),
+            overview: z.string(),
+        })
+    ),
+});
+export type TMDBFindResponse = z.infer<typeof TMDBFindResponseSchema>;
+
+/**
+ * IDs of a movie, TV show, episode or person in other systems
+ * Which fields are present depends on the type; unknown IDs are null or ""
+ */
+export const TMDBExternalIdsSchema = z.object({
+    id: z.number(),
+    imdb_id: z.string().nullish(),
+    tvdb_id: z.number().nullish(),
+    wikidata_id: z.string().nullish(),
+    facebook_id: z.string().nullish(),
+    instagram_id: z.string().nullish(),
+    tiktok_id: z.string().nullish(),
+    twitter_id: z.string().nullish(),
+    youtube_id: z.string().nullish(),
+});
+export type TMDBExternalIds = z.infer<typeof TMDBExternalIdsSchema>;
+
+/**
+ * Production company details
+ */
+export const TMDBCompanyDetailsSchema = TMDBCompanySchema.extend({
+    description: z.string(),
+    headquarters: z.string(),
+    homepage: z.string(),
+    parent_company: TMDBCompanySchema.nullable(),
+});
+export type TMDBCompanyDetails = z.infer<typeof TMDBCompanyDetailsSchema>;
+
+/**
+ * TV network details
+ */
+export const TMDBNetworkDetailsSchema = TMDBCompanySchema.extend({
+    headquarters: z.string(),
+    homepage: z.string(),
+});
+export type TMDBNetworkDetails = z.infer<typeof TMDBNetworkDetailsSchema>;
+
+/**
+ * Sub-requests that can be appended to movie details with append_to_response
+ * Appended responses are keyed by sub-request and omit the movie ID
+ */
+export const TMDBMovieAppendsSchema = z.object({
+    credits: TMDBCreditsResponseSchema.omit({ id: true }),
+    videos: TMDBVideosResponseSchema,
+    images: TMDBImagesResponseSchema.omit({ id: true }),
+    keywords: TMDBKeywordsResponseSchema.omit({ id: true }),
+    "watch/providers": TMDBWatchProvidersResponseSchema.omit({ id: true }),
+    external_ids: TMDBExternalIdsSchema.omit({ id: true }),
+    release_dates: TMDBReleaseDatesResponseSchema.omit({ id: true }),
+    similar: searchResponseSchema(TMDBMovieSchema),
+});
+export type TMDBMovieAppend = keyof typeof TMDBMovieAppendsSchema.shape;
+
+/**
+ * Movie details with the appended sub-requests that were asked for
+ */
+export const TMDBMovieDetailsWithAppendsSchema = TMDBMovieDetailsSchema.extend(
+    TMDBMovieAppendsSchema.partial().shape
+);
+export type TMDBMovieDetailsWithAppends = z.infer<typeof TMDBMovieDetailsWithAppendsSchema>;
+
+/**
+ * Sub-requests that can be appended to TV show details with append_to_response
+ */
+export const TMDBTVShowAppendsSchema = z.object({
+    credits: TMDBCreditsResponseSchema.omit({ id: true }),
+    videos: TMDBVideosResponseSchema,
+    images: TMDBImagesResponseSchema.omit({ id: true }),
+    keywords: TMDBKeywordsResponseSchema.omit({ id: true }),
+    "watch/providers": TMDBWatchProvidersResponseSchema.omit({ id: true }),
+    external_ids: TMDBExternalIdsSchema.omit({ id: true }),
+    content_ratings: TMDBContentRatingsResponseSchema.omit({ id: true }),
+    similar: searchResponseSchema(TMDBTVShowSchema),
+});
+export type TMDBTVShowAppend = keyof typeof TMDBTVShowAppendsSchema.shape;
+
+/**
+ * TV show details with the appended sub-requests that were asked for
+ */
+export const TMDBTVShowDetailsWithAppendsSchema = TMDBTVShowDetailsSchema.extend(
+    TMDBTVShowAppendsSchema.partial().shape
+);
+export type TMDBTVShowDetailsWithAppends = z.infer<typeof TMDBTVShowDetailsWithAppendsSchema>;
+
+/**
+ * Sub-requests that can be appended to person details with append_to_response
+ */
+export const TMDBPersonAppendsSchema = z.object({
+    combined_credits: TMDBPersonCreditsResponseSchema.omit({ id: true }),
+    images: TMDBImagesResponseSchema.omit({ id: true }),
+    external_ids: TMDBExternalIdsSchema.omit({ id: true }),
+});
+export type TMDBPersonAppend = keyof typeof TMDBPersonAppendsSchema.shape;
+
+/**
+ * Person details with the appended sub-requests that were asked for
+ */
+export const TMDBPersonDetailsWithAppendsSchema = TMDBPersonDetailsSchema.extend(
+    TMDBPersonAppendsSchema.partial().shape
+);
+export type TMDBPersonDetailsWithAppends = z.infer<typeof TMDBPersonDetailsWithAppendsSchema>;
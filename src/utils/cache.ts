@@ -0,0 +1,94 @@
+/**
+ * In-memory LRU cache with per-entry TTL
+ * Used by TMDBClient to avoid re-fetching overlapping data across tool calls
+ */
+
+interface CacheEntry<T> {
+    value: T;
+    expiresAt: number;
+}
+
+export interface CacheStats {
+    enabled: boolean;
+    size: number;
+    max_entries: number;
+    hits: number;
+    misses: number;
+    evictions: number;
+    hit_rate: number;
+}
+
+export class LRUCache<T = unknown> {
+    // Map preserves insertion order, so the first key is always the least recently used
+    private readonly entries = new Map<string, CacheEntry<T>>();
+    private readonly maxEntries: number;
+    private hits = 0;
+    private misses = 0;
+    private evictions = 0;
+
+    constructor(maxEntries: number) {
+        this.maxEntries = Math.max(0, Math.floor(maxEntries));
+    }
+
+    get enabled(): boolean {
+        return this.maxEntries > 0;
+    }
+
+    /**
+     * Get a cached value, or undefined if missing or expired
+     */
+    get(key: string): T | undefined {
+        if (!this.enabled) return undefined;
+
+        const entry = this.entries.get(key);
+        if (!entry) {
+            this.misses++;
+            return undefined;
+        }
+
+        if (entry.expiresAt <= Date.now()) {
+            this.entries.delete(key);
+            this.misses++;
+            return undefined;
+        }
+
+        // Move to the most recently used position
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        this.hits++;
+        return entry.value;
+    }
+
+    /**
+     * Store a value for ttlMs milliseconds, evicting the least recently used entry if full
+     */
+    set(key: string, value: T, ttlMs: number): void {
+        if (!this.enabled || ttlMs <= 0) return;
+
+        this.entries.delete(key);
+        while (this.entries.size >= this.maxEntries) {
+            const oldestKey = this.entries.keys().next().value as string;
+            this.entries.delete(oldestKey);
+            this.evictions++;
+        }
+
+        this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+
+    stats(): CacheStats {
+        const lookups = this.hits + this.misses;
+        return {
+            enabled: this.enabled,
+            size: this.entries.size,
+            max_entries: this.maxEntries,
+            hits: this.hits,
+            misses: this.misses,
+            evictions: this.evictions,
+            hit_rate: lookups > 0 ? Number((this.hits / lookups).toFixed(3)) : 0,
+        };
+    }
+}
@@ -0,0 +1,49 @@
+/**
+ * External ID link builder
+ * Turns the IMDb, Wikidata and social media IDs returned by TMDB into page URLs
+ */
+
+import type { TMDBExternalIds } from "../types/tmdb.js";
+
+type ExternalIdName = Exclude<keyof TMDBExternalIds, "id">;
+
+/**
+ * Profile/page URL templates for external IDs that map to a stable URL
+ */
+const EXTERNAL_URLS: Partial<Record<ExternalIdName, (id: string) => string>> = {
+    imdb_id: (id) => `https://www.imdb.com/${id.startsWith("nm") ? "name" : "title"}/${id}/`,
+    wikidata_id: (id) => `https://www.wikidata.org/wiki/${id}`,
+    facebook_id: (id) => `https://www.facebook.com/${id}`,
+    instagram_id: (id) => `https://www.instagram.com/${id}`,
+    tiktok_id: (id) => `https://www.tiktok.com/@${id}`,
+    twitter_id: (id) => `https://x.com/${id}`,
+};
+
+/**
+ * Get the external IDs TMDB knows, without the TMDB ID itself
+ * TMDB returns null or "" for IDs it doesn't know
+ */
+export function getKnownExternalIds(
+    ids: Omit<TMDBExternalIds, "id"> & { id?: number }
+): Record<string, string | number> {
+    const { id: _, ...externalIds } = ids;
+    return Object.fromEntries(
+        Object.entries(externalIds).filter(
+            (entry): entry is [string, string | number] => entry[1] !== null && entry[1] !== ""
+        )
+    );
+}
+
+/**
+ * Build page URLs for the external IDs that have one, keyed by site (e.g. "imdb")
+ */
+export function buildExternalLinks(
+    externalIds: Record<string, string | number>
+): Record<string, string> {
+    return Object.fromEntries(
+        Object.entries(externalIds).flatMap(([key, value]) => {
+            const url = EXTERNAL_URLS[key as ExternalIdName];
+            return url ? [[key.replace(/_id$/, ""), url(String(value))]] : [];
+        })
+    );
+}
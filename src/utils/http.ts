@@ -0,0 +1,148 @@
+/**
+ * Pluggable HTTP layer for TMDBClient
+ * Supports live requests, recording responses to fixtures, and replaying them offline
+ */
+
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+
+/**
+ * Minimal fetch signature used by TMDBClient
+ */
+export type HttpFetch = (url: string, init: RequestInit) => Promise<Response>;
+
+export type HttpMode = "live" | "record" | "replay";
+
+export const HTTP_MODES: readonly HttpMode[] = ["live", "record", "replay"];
+
+/**
+ * Recorded request/response pair stored as one JSON file per request
+ */
+export interface HttpFixture {
+    request: {
+        method: string;
+        path: string;
+    };
+    response: {
+        status: number;
+        statusText: string;
+        headers: Record<string, string>;
+        body: string;
+    };
+}
+
+// Transient failures are not worth recording; replaying them would make runs flaky
+const UNRECORDABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+/**
+ * Normalize a request URL to its path below the base URL plus query params sorted by name
+ * Independent of host and base path, so fixtures recorded against TMDB replay against any
+ * base URL (e.g. a proxy at https://proxy.example/tmdb)
+ */
+function getFixtureKey(method: string, url: string, baseURL: string): string {
+    const { pathname, searchParams } = new URL(url);
+    const basePath = new URL(baseURL).pathname.replace(/\/+$/, "");
+    const requestPath =
+        basePath && pathname.startsWith(`${basePath}/`)
+            ? pathname.slice(basePath.length)
+            : pathname;
+    const query = [...searchParams.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, value]) => `${key}=${value}`)
+        .join("&");
+
+    return `${method} ${requestPath}${query ? `?${query}` : ""}`;
+}
+
+/**
+ * Build a readable, collision-free fixture file name for a request
+ */
+function getFixturePath(fixturesDir: string, key: string): string {
+    const [, requestPath] = key.split(" ");
+    const slug = new URL(requestPath, "http://fixture").pathname
+        .replace(/^\/+/, "")
+        .replace(/[^a-zA-Z0-9]+/g, "_")
+        .slice(0, 80);
+    const hash = createHash("sha1").update(key).digest("hex").slice(0, 10);
+
+    return path.join(fixturesDir, `${slug}-${hash}.json`);
+}
+
+/**
+ * Wrap a fetch implementation so every response is written to the fixtures directory
+ */
+export function createRecordingFetch(
+    fixturesDir: string,
+    baseURL: string,
+    baseFetch: HttpFetch = fetch
+): HttpFetch {
+    return async (url, init) => {
+        const response = await baseFetch(url, init);
+        if (UNRECORDABLE_STATUSES.has(response.status)) {
+            return response;
+        }
+
+        const method = init.method ?? "GET";
+        const key = getFixtureKey(method, url, baseURL);
+        const fixture: HttpFixture = {
+            request: { method, path: key.slice(method.length + 1) },
+            response: {
+                status: response.status,
+                statusText: response.statusText,
+                headers: { "content-type": response.headers.get("content-type") ?? "" },
+                body: await response.clone().text(),
+            },
+        };
+
+        await mkdir(fixturesDir, { recursive: true });
+        await writeFile(getFixturePath(fixturesDir, key), JSON.stringify(fixture, null, 2));
+        return response;
+    };
+}
+
+/**
+ * Fetch implementation that serves recorded fixtures and never touches the network
+ * Unknown requests get a TMDB-style 404 so the error surfaces clearly in tool output
+ */
+export function createReplayFetch(fixturesDir: string, baseURL: string): HttpFetch {
+    return async (url, init) => {
+        const method = init.method ?? "GET";
+        const key = getFixtureKey(method, url, baseURL);
+
+        let fixture: HttpFixture;
+        try {
+            fixture = JSON.parse(await readFile(getFixturePath(fixturesDir, key), "utf-8"));
+        } catch {
+            return new Response(
+                JSON.stringify({
+                    success: false,
+                    status_code: 34,
+                    status_message: `No recorded fixture for ${key} (replay mode)`,
+                }),
+                {
+                    status: 404,
+                    statusText: "Not Found",
+                    headers: { "content-type": "application/json" },
+                }
+            );
+        }
+
+        const { status, statusText, headers, body } = fixture.response;
+        return new Response(body, { status, statusText, headers });
+    };
+}
+
+/**
+ * Create the fetch implementation for an HTTP mode
+ */
+export function createHttpFetch(mode: HttpMode, fixturesDir: string, baseURL: string): HttpFetch {
+    switch (mode) {
+        case "record":
+            return createRecordingFetch(fixturesDir, baseURL);
+        case "replay":
+            return createReplayFetch(fixturesDir, baseURL);
+        default:
+            return fetch;
+    }
+}
@@ -0,0 +1,89 @@
+/**
+ * TMDB image URL builder
+ * Image URLs are built from TMDB's /configuration (base URL and allowed sizes per image type)
+ * and a server-wide preferred size, so every formatter picks sizes the same way.
+ */
+
+import type { TMDBImageConfiguration } from "../types/tmdb.js";
+
+export type ImageType = "poster" | "backdrop" | "profile" | "logo" | "still";
+
+export type ImageSize = "small" | "medium" | "large" | "original";
+
+export const IMAGE_SIZES: readonly ImageSize[] = ["small", "medium", "large", "original"];
+
+/**
+ * Minimum pixel size wanted for each preference; the smallest allowed size at least this big is used
+ */
+const SIZE_TARGETS: Record<ImageSize, number> = {
+    small: 150,
+    medium: 500,
+    large: 1000,
+    original: Infinity,
+};
+
+/**
+ * TMDB's published configuration, used until /configuration has been loaded
+ */
+const DEFAULT_CONFIGURATION: TMDBImageConfiguration = {
+    base_url: "http://image.tmdb.org/t/p/",
+    secure_base_url: "https://image.tmdb.org/t/p/",
+    backdrop_sizes: ["w300", "w780", "w1280", "original"],
+    logo_sizes: ["w45", "w92", "w154", "w185", "w300", "w500", "original"],
+    poster_sizes: ["w92", "w154", "w185", "w342", "w500", "w780", "original"],
+    profile_sizes: ["w45", "w185", "h632", "original"],
+    still_sizes: ["w92", "w185", "w300", "original"],
+};
+
+let configuration: TMDBImageConfiguration = DEFAULT_CONFIGURATION;
+let preferredSize: ImageSize = "medium";
+
+/**
+ * Use the image configuration returned by TMDB's /configuration endpoint
+ */
+export function setImageConfiguration(images: TMDBImageConfiguration): void {
+    configuration = images;
+}
+
+/**
+ * Set the server-wide preferred image size
+ */
+export function setPreferredImageSize(size: ImageSize): void {
+    preferredSize = size;
+}
+
+/**
+ * Get the allowed sizes for an image type, e.g. ["w92", "w154", ..., "original"]
+ */
+export function getImageSizes(type: ImageType): string[] {
+    return configuration[`${type}_sizes`];
+}
+
+/**
+ * Pixel size encoded in a size name ("w500" -> 500, "h632" -> 632, "original" -> Infinity)
+ */
+function getSizePixels(size: string): number {
+    const pixels = Number(size.slice(1));
+    return Number.isNaN(pixels) ? Infinity : pixels;
+}
+
+/**
+ * Pick the allowed size for an image type that best matches a size preference
+ */
+export function resolveImageSize(type: ImageType, size: ImageSize = preferredSize): string {
+    const target = SIZE_TARGETS[size];
+    const match = getImageSizes(type).find((allowed) => getSizePixels(allowed) >= target);
+    return match ?? "original";
+}
+
+/**
+ * Build a full image URL from a TMDB file path, or null when there is no image
+ */
+export function buildImageUrl(
+    filePath: string | null | undefined,
+    type: ImageType,
+    size?: ImageSize
+): string | null {
+    if (!filePath) return null;
+    return `${configuration.secure_base_url}${resolveImageSize(type, size)}${filePath}`;
+}
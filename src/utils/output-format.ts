@@ -0,0 +1,246 @@
+/**
+ * Text rendering of tool results
+ * Tools return structured results; the text content sent alongside them is rendered as
+ * full JSON, compact JSON or Markdown, per call or from the server-wide default format,
+ * optionally limited to selected fields.
+ */
+
+export type OutputFormat = "json" | "compact" | "markdown";
+
+export const OUTPUT_FORMATS: readonly OutputFormat[] = ["json", "compact", "markdown"];
+
+// Longer text (overviews, biographies, reviews) is cut to this many characters in compact
+// output and Markdown tables
+const TEXT_LIMIT = 200;
+
+// Deepest Markdown heading level; deeper sections reuse it
+const MAX_HEADING_LEVEL = 6;
+
+let defaultFormat: OutputFormat = "json";
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Fields selected at one level of a result; null selects the whole property
+ */
+type FieldTree = Map<string, FieldTree | null>;
+
+/**
+ * Set the server-wide default output format
+ */
+export function setDefaultOutputFormat(format: OutputFormat): void {
+    defaultFormat = format;
+}
+
+function isObject(value: unknown): value is JsonObject {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Build a tree from dot-path fields, e.g. ["page", "results.title"]
+ */
+function buildFieldTree(fields: readonly string[]): FieldTree {
+    const tree: FieldTree = new Map();
+
+    for (const field of fields) {
+        const parts = field.split(".");
+        let node = tree;
+        for (const [index, part] of parts.entries()) {
+            if (index === parts.length - 1) {
+                node.set(part, null);
+                break;
+            }
+            const child = node.get(part);
+            // The whole property is already selected
+            if (child === null) break;
+            const next: FieldTree = child ?? new Map();
+            node.set(part, next);
+            node = next;
+        }
+    }
+    return tree;
+}
+
+/**
+ * Keep the selected fields of a value; arrays are selected item by item
+ */
+function pickFields(value: unknown, tree: FieldTree): unknown {
+    if (Array.isArray(value)) {
+        return value.map((item) => pickFields(item, tree));
+    }
+    if (!isObject(value)) {
+        return value;
+    }
+
+    return Object.fromEntries(
+        [...tree]
+            .filter(([key]) => key in value)
+            .map(([key, child]) => [
+                key,
+                child === null ? value[key] : pickFields(value[key], child),
+            ])
+    );
+}
+
+/**
+ * Keep only the given fields of a result, using dot paths for nested properties
+ * ("results.title" keeps the title of every item in results)
+ */
+export function selectFields(result: JsonObject, fields: readonly string[]): JsonObject {
+    return pickFields(result, buildFieldTree(fields)) as JsonObject;
+}
+
+/**
+ * Cut text to the text limit at a word boundary
+ */
+function truncate(text: string): string {
+    if (text.length <= TEXT_LIMIT) return text;
+
+    const cut = text.slice(0, TEXT_LIMIT);
+    const lastSpace = cut.lastIndexOf(" ");
+    return `${(lastSpace > TEXT_LIMIT * 0.8 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
+
+/**
+ * Trim a value for compact output: drop image paths and empty values, cut long text
+ */
+function compact(value: unknown): unknown {
+    if (typeof value === "string") {
+        return truncate(value);
+    }
+    if (Array.isArray(value)) {
+        return value.map(compact);
+    }
+    if (!isObject(value)) {
+        return value;
+    }
+
+    return Object.fromEntries(
+        Object.entries(value)
+            .filter(([key]) => !isImagePath(key))
+            .map(([key, item]) => [key, compact(item)] as const)
+            .filter(
+                ([, item]) =>
+                    item !== null &&
+                    item !== undefined &&
+                    item !== "" &&
+                    !(Array.isArray(item) && item.length === 0)
+            )
+    );
+}
+
+/**
+ * Label for a property name: "release_date" -> "Release date"
+ */
+function toLabel(key: string): string {
+    const label = key.replace(/_/g, " ");
+    return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+/**
+ * Inline text for a value: lists are comma-separated, objects are named by their title or name
+ */
+function toInlineText(value: unknown): string {
+    if (Array.isArray(value)) {
+        return value.map(toInlineText).join(", ");
+    }
+    if (isObject(value)) {
+        const name = value.title ?? value.name;
+        return typeof name === "string" ? name : JSON.stringify(value);
+    }
+    return String(value);
+}
+
+/**
+ * Table cell for a value, with pipes escaped and line breaks removed
+ */
+function toCell(value: unknown): string {
+    if (value === null || value === undefined) return "";
+    return truncate(toInlineText(value).replace(/\s+/g, " "))
+        .replace(/\\/g, "\\\\")
+        .replace(/\|/g, "\\|");
+}
+
+/**
+ * Image paths are URLs too wide to read in text; compact output and Markdown leave them out
+ */
+function isImagePath(key: string): boolean {
+    return key.endsWith("_path");
+}
+
+/**
+ * Render a list of objects as a Markdown table with a column per property
+ */
+function renderTable(items: JsonObject[]): string[] {
+    const columns = [...new Set(items.flatMap((item) => Object.keys(item)))].filter(
+        (column) => !isImagePath(column)
+    );
+
+    return [
+        `| ${columns.map(toLabel).join(" | ")} |`,
+        `| ${columns.map(() => "---").join(" | ")} |`,
+        ...items.map((item) => `| ${columns.map((column) => toCell(item[column])).join(" | ")} |`),
+    ];
+}
+
+/**
+ * Render an object as Markdown: plain values as a bullet list, lists of objects as tables
+ * and nested objects as sections headed at the given level
+ */
+function renderSection(value: JsonObject, level: number): string[] {
+    const entries = Object.entries(value).filter(
+        ([key, item]) => item !== null && item !== undefined && !isImagePath(key)
+    );
+    const heading = "#".repeat(Math.min(level, MAX_HEADING_LEVEL));
+    const lines: string[] = [];
+
+    for (const [key, item] of entries) {
+        const isTable = Array.isArray(item) && item.length > 0 && item.every(isObject);
+        if (!isObject(item) && !isTable) {
+            const text = toInlineText(item).replace(/\s*\n\s*/g, " ");
+            lines.push(`- **${toLabel(key)}:** ${text || "none"}`);
+        }
+    }
+
+    for (const [key, item] of entries) {
+        if (Array.isArray(item) && item.length > 0 && item.every(isObject)) {
+            lines.push("", `${heading} ${toLabel(key)}`, "", ...renderTable(item));
+        } else if (isObject(item)) {
+            const section = renderSection(item, level + 1);
+            if (section.length > 0) {
+                lines.push("", `${heading} ${toLabel(key)}`, "", ...section);
+            }
+        }
+    }
+
+    // Drop the blank line before a first heading
+    return lines[0] === "" ? lines.slice(1) : lines;
+}
+
+/**
+ * Render a result as Markdown, headed by its title or name when it has one
+ */
+function renderMarkdown(result: JsonObject): string {
+    const titleKey = ["title", "name"].find((key) => typeof result[key] === "string");
+    if (!titleKey) {
+        return renderSection(result, 2).join("\n");
+    }
+
+    const { [titleKey]: title, ...rest } = result;
+    const body = renderSection(rest, 2);
+    return [`# ${title}`, ...(body.length > 0 ? ["", ...body] : [])].join("\n");
+}
+
+/**
+ * Render a result as text in the given format (default: the server-wide format)
+ */
+export function renderResult(result: JsonObject, format: OutputFormat = defaultFormat): string {
+    switch (format) {
+        case "compact":
+            return JSON.stringify(compact(result));
+        case "markdown":
+            return renderMarkdown(result);
+        default:
+            return JSON.stringify(result);
+    }
+}
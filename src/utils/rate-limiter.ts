@@ -0,0 +1,55 @@
+/**
+ * Client-side rate limiting helpers
+ * Keeps bursts of parallel tool calls under TMDB's request limits
+ */
+
+/**
+ * Resolve after the given number of milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Token bucket allowing short bursts up to `capacity` requests,
+ * refilled continuously at `refillPerSecond` tokens per second
+ */
+export class TokenBucket {
+    private readonly capacity: number;
+    private readonly refillPerSecond: number;
+    private tokens: number;
+    private lastRefill: number;
+
+    constructor(refillPerSecond: number, capacity: number = refillPerSecond) {
+        if (refillPerSecond <= 0 || capacity < 1) {
+            throw new Error("Token bucket rate and capacity must be positive");
+        }
+        this.refillPerSecond = refillPerSecond;
+        this.capacity = capacity;
+        this.tokens = capacity;
+        this.lastRefill = Date.now();
+    }
+
+    /**
+     * Wait until a token is available, then consume it
+     */
+    async acquire(): Promise<void> {
+        for (;;) {
+            this.refill();
+            if (this.tokens >= 1) {
+                this.tokens -= 1;
+                return;
+            }
+
+            const waitMs = Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000);
+            await sleep(waitMs);
+        }
+    }
+
+    private refill(): void {
+        const now = Date.now();
+        const elapsedSeconds = (now - this.lastRefill) / 1000;
+        this.tokens = Math.min(this.capacity, this.tokens + elapsedSeconds * this.refillPerSecond);
+        this.lastRefill = now;
+    }
+}
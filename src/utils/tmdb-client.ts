@@ -3,60 +3,494 @@
  * Handles all requests to The Movie Database API
  */
 
+import { z } from "zod";
 import type {
     TMDBMovie,
-    TMDBMovieDetails,
+    TMDBMovieAppend,
+    TMDBMovieDetailsWithAppends,
     TMDBTVShow,
-    TMDBTVShowDetails,
+    TMDBTVShowAppend,
+    TMDBTVShowDetailsWithAppends,
+    TMDBTVSeasonDetails,
+    TMDBTVEpisode,
     TMDBSearchResponse,
     TMDBError,
+    TMDBCreditsResponse,
+    TMDBPerson,
+    TMDBPersonAppend,
+    TMDBPersonDetailsWithAppends,
+    TMDBTrendingItem,
+    TMDBDatedListResponse,
+    TMDBCompany,
+    TMDBCompanyDetails,
+    TMDBNetworkDetails,
+    TMDBExternalIds,
+    TMDBExternalSource,
+    TMDBFindResponse,
+    TMDBGenreListResponse,
+    TMDBCertificationsResponse,
+    TMDBContentRatingsResponse,
+    TMDBReleaseDatesResponse,
+    TMDBCollectionDetails,
+    TMDBCollectionSearchResult,
+    TMDBKeyword,
+    TMDBKeywordsResponse,
+    TMDBReview,
+    TMDBVideosResponse,
+    TMDBConfiguration,
+    TMDBImagesResponse,
+    TMDBMultiSearchResult,
+    TMDBPersonCreditsResponse,
+    TMDBWatchProvidersResponse,
+    TMDBWatchProviderListResponse,
 } from "../types/tmdb.js";
+import {
+    TMDBCertificationsResponseSchema,
+    TMDBCollectionDetailsSchema,
+    TMDBCollectionSearchResultSchema,
+    TMDBCompanyDetailsSchema,
+    TMDBCompanySchema,
+    TMDBConfigurationSchema,
+    TMDBContentRatingsResponseSchema,
+    TMDBCreditsResponseSchema,
+    TMDBExternalIdsSchema,
+    TMDBFindResponseSchema,
+    TMDBGenreListResponseSchema,
+    TMDBImagesResponseSchema,
+    TMDBKeywordSchema,
+    TMDBKeywordsResponseSchema,
+    TMDBMovieDetailsWithAppendsSchema,
+    TMDBMovieSchema,
+    TMDBMultiSearchResultSchema,
+    TMDBNetworkDetailsSchema,
+    TMDBPersonCreditsResponseSchema,
+    TMDBPersonDetailsWithAppendsSchema,
+    TMDBPersonSchema,
+    TMDBReleaseDatesResponseSchema,
+    TMDBReviewSchema,
+    TMDBTVEpisodeSchema,
+    TMDBTVSeasonDetailsSchema,
+    TMDBTVShowDetailsWithAppendsSchema,
+    TMDBTVShowSchema,
+    TMDBTrendingItemSchema,
+    TMDBVideosResponseSchema,
+    TMDBWatchProviderListResponseSchema,
+    TMDBWatchProvidersResponseSchema,
+    datedListResponseSchema,
+    searchResponseSchema,
+} from "../types/tmdb.js";
+import { LRUCache, type CacheStats } from "./cache.js";
+import { TokenBucket, sleep } from "./rate-limiter.js";
+import type { HttpFetch } from "./http.js";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+/**
+ * Cache TTLs per endpoint family, checked in order (first match wins)
+ */
+const CACHE_TTLS: Array<{ pattern: RegExp; ttl: number }> = [
+    { pattern: /^\/trending\//, ttl: 10 * MINUTE },
+    { pattern: /^\/(genre|configuration|certification)(\/|$)/, ttl: 7 * 24 * HOUR },
+    { pattern: /^\/(search|discover)\//, ttl: HOUR },
+    { pattern: /^\/find\//, ttl: 24 * HOUR },
+    { pattern: /^\/watch\/providers\//, ttl: 24 * HOUR },
+    { pattern: /\/watch\/providers$/, ttl: 6 * HOUR },
+    { pattern: /^\/(movie|tv)\/\d+\/recommendations$/, ttl: 6 * HOUR },
+    { pattern: /^\/(movie|tv|person|collection|company|network)\/\d+/, ttl: 24 * HOUR },
+];
+
+export const DEFAULT_BASE_URL = "https://api.themoviedb.org/3";
+
+const DEFAULT_CACHE_TTL = HOUR;
+const DEFAULT_CACHE_SIZE = 500;
+
+// TMDB allows roughly 50 requests per second; stay safely below that
+const DEFAULT_RATE_LIMIT = 40;
+const DEFAULT_MAX_ATTEMPTS = 4;
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 30 * 1000;
+
+// Validation issues listed in the error for a response that doesn't match its schema
+const MAX_REPORTED_ISSUES = 3;
+
+// Characters of a non-JSON response body quoted in errors
+const BODY_SNIPPET_LENGTH = 200;
+
+// Language used to fill in overviews that have not been translated
+const FALLBACK_LANGUAGE = "en-US";
+
+/**
+ * Endpoints where TMDB's language param filters results instead of translating them
+ */
+const UNLOCALIZED_ENDPOINTS = [/\/(images|videos|reviews)$/];
+
+/**
+ * Lists inside a response whose items carry their own overview
+ */
+const OVERVIEW_LISTS = ["results", "parts", "seasons", "episodes"] as const;
+
+/**
+ * Language and region sent with every request
+ */
+export interface TMDBLocale {
+    /** ISO 639-1 language, optionally with an ISO 3166-1 region, e.g. "de" or "pt-BR" */
+    language?: string;
+    /** ISO 3166-1 country code used for release dates and regional results, e.g. "GB" */
+    region?: string;
+}
+
+export interface TMDBClientOptions extends TMDBLocale {
+    /** TMDB API base URL (e.g. a proxy or local mock server) */
+    baseURL?: string;
+    /** HTTP implementation used for requests (defaults to the global fetch) */
+    fetch?: HttpFetch;
+    /** Maximum number of cached responses (0 disables caching) */
+    cacheSize?: number;
+    /** Total attempts per request, including the first (1 disables retries) */
+    maxAttempts?: number;
+    /** Maximum requests per second sent to TMDB */
+    rateLimit?: number;
+}
+
+/**
+ * Get the cache TTL for an endpoint
+ */
+function getCacheTTL(endpoint: string): number {
+    const match = CACHE_TTLS.find(({ pattern }) => pattern.test(endpoint));
+    return match ? match.ttl : DEFAULT_CACHE_TTL;
+}
+
+/**
+ * Build a cache key from the endpoint and its query params sorted by name
+ */
+function getCacheKey(endpoint: string, params: Record<string, string>): string {
+    const query = Object.keys(params)
+        .sort()
+        .map((key) => `${key}=${params[key]}`)
+        .join("&");
+
+    return query ? `${endpoint}?${query}` : endpoint;
+}
+
+/**
+ * Exponential backoff with full jitter for the given (1-based) attempt
+ */
+function getBackoffDelay(attempt: number): number {
+    const ceiling = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** (attempt - 1));
+    return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+    if (!header) return undefined;
+
+    const seconds = Number(header);
+    const delay = Number.isNaN(seconds) ? Date.parse(header) - Date.now() : seconds * 1000;
+    if (Number.isNaN(delay)) return undefined;
+
+    return Math.min(MAX_RETRY_DELAY_MS, Math.max(0, delay));
+}
+
+/**
+ * Start of a response body for error messages, on one line
+ */
+function getBodySnippet(body: string): string {
+    const text = body.replace(/\s+/g, " ").trim();
+    return text.length > BODY_SNIPPET_LENGTH ? `${text.slice(0, BODY_SNIPPET_LENGTH)}…` : text;
+}
+
+/**
+ * Build a readable error message from a failed response
+ * TMDB returns JSON errors, but proxies and gateways may return HTML or plain text
+ */
+async function describeErrorResponse(response: Response, url: string): Promise<string> {
+    const body = await response.text().catch(() => "");
+
+    try {
+        const error: TMDBError = JSON.parse(body);
+        if (error.status_message) {
+            return `TMDB API Error (${response.status}): ${error.status_message}`;
+        }
+    } catch {
+        // Not JSON, fall through to the HTTP status
+    }
+
+    const snippet = getBodySnippet(body);
+    return `TMDB API Error (${response.status}): ${response.statusText || "Request failed"} from ${url}${snippet ? `: ${snippet}` : ""}`;
+}
+
+/**
+ * Parse a successful response's JSON body
+ * A proxy or captive portal can answer 2xx with an HTML page instead of TMDB's JSON
+ */
+async function parseResponseBody(response: Response, url: string): Promise<unknown> {
+    const body = await response.text();
+
+    try {
+        return JSON.parse(body);
+    } catch {
+        throw new Error(
+            `TMDB API Error (${response.status}): Response from ${url} is not JSON: ${getBodySnippet(body)}`
+        );
+    }
+}
+
+type OverviewRecord = Record<string, unknown> & { id?: unknown; overview?: unknown };
+
+/**
+ * Check whether a response, or any item in its lists, has an empty overview
+ */
+function hasMissingOverview(data: OverviewRecord): boolean {
+    return (
+        data.overview === "" ||
+        OVERVIEW_LISTS.some((key) => {
+            const items = data[key];
+            return (
+                Array.isArray(items) && items.some((item: OverviewRecord) => item?.overview === "")
+            );
+        })
+    );
+}
+
+/**
+ * Fill empty overviews in a translated response from the same response in the fallback language
+ * List items are matched by ID; the cached responses are left untouched
+ */
+function fillMissingOverviews(data: OverviewRecord, fallback: OverviewRecord): OverviewRecord {
+    const filled: OverviewRecord = { ...data };
+    if (data.overview === "" && fallback.overview) {
+        filled.overview = fallback.overview;
+    }
+
+    for (const key of OVERVIEW_LISTS) {
+        const items = data[key];
+        const fallbackItems = fallback[key];
+        if (!Array.isArray(items) || !Array.isArray(fallbackItems)) continue;
+
+        const fallbackOverviews = new Map(
+            fallbackItems.map((item: OverviewRecord) => [item.id, item.overview])
+        );
+        filled[key] = items.map((item: OverviewRecord) => {
+            const overview = fallbackOverviews.get(item.id);
+            return item.overview === "" && overview ? { ...item, overview } : item;
+        });
+    }
+
+    return filled;
+}
+
+/**
+ * Summarize the first few fields that failed response validation
+ */
+function describeValidationError(error: z.ZodError): string {
+    const issues = error.issues
+        .slice(0, MAX_REPORTED_ISSUES)
+        .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+    const remaining = error.issues.length - issues.length;
+
+    return remaining > 0 ? `${issues.join("; ")} (and ${remaining} more)` : issues.join("; ");
+}
+
+/**
+ * Query params restricting image results to the given languages
+ */
+function imageLanguageParams(languages?: string[]): Record<string, string> | undefined {
+    return languages?.length ? { include_image_language: languages.join(",") } : undefined;
+}
 
 export class TMDBClient {
-    private readonly baseURL = "https://api.themoviedb.org/3";
+    private readonly baseURL: string;
     private readonly token: string;
+    private readonly fetch: HttpFetch;
+    private readonly cache: LRUCache;
+    private readonly rateLimiter: TokenBucket;
+    private readonly maxAttempts: number;
+    private readonly locale: TMDBLocale;
 
-    constructor(token: string) {
+    constructor(token: string, options: TMDBClientOptions = {}) {
         if (!token) {
             throw new Error("TMDB_ACCESS_TOKEN is required");
         }
         this.token = token;
+        this.baseURL = (options.baseURL ?? DEFAULT_BASE_URL).replace(/\/+$/, "");
+        this.fetch = options.fetch ?? fetch;
+        this.cache = new LRUCache(options.cacheSize ?? DEFAULT_CACHE_SIZE);
+        this.rateLimiter = new TokenBucket(options.rateLimit ?? DEFAULT_RATE_LIMIT);
+        this.maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+        this.locale = { language: options.language, region: options.region };
+    }
+
+    /**
+     * Get a client that sends the given language and/or region instead of the defaults
+     * The returned client shares this client's cache, rate limiter and HTTP implementation
+     */
+    withLocale(locale: TMDBLocale): TMDBClient {
+        const scoped: TMDBClient = Object.create(TMDBClient.prototype);
+        return Object.assign(scoped, this, {
+            locale: {
+                language: locale.language ?? this.locale.language,
+                region: locale.region ?? this.locale.region,
+            },
+        });
+    }
+
+    /**
+     * Get cache hit/miss statistics
+     */
+    getCacheStats(): CacheStats {
+        return this.cache.stats();
+    }
+
+    /**
+     * Get the language and region sent with requests
+     */
+    getLocale(): TMDBLocale {
+        return { ...this.locale };
+    }
+
+    /**
+     * Query params appending sub-requests to a details request
+     * Appended images and videos are filtered by the request language, so language-less
+     * and English ones are kept alongside it
+     */
+    private appendParams(append: readonly string[]): Record<string, string> | undefined {
+        if (append.length === 0) return undefined;
+
+        // Sorted so the same sub-requests in any order share a cache entry
+        const params: Record<string, string> = {
+            append_to_response: [...new Set(append)].sort().join(","),
+        };
+        const language = this.locale.language?.slice(0, 2);
+        if (language) {
+            const languages = [...new Set([language, "en", "null"])].join(",");
+            if (append.includes("images")) params.include_image_language = languages;
+            if (append.includes("videos")) params.include_video_language = languages;
+        }
+
+        return params;
     }
 
     /**
      * Generic GET request handler
+     * Adds the client's language and region, falling back to English for untranslated overviews
      */
-    private async get<T>(endpoint: string, params?: Record<string, string>): Promise<T> {
-        const url = new URL(`${this.baseURL}${endpoint}`);
+    private async get<T>(
+        endpoint: string,
+        schema: z.ZodType<T>,
+        params?: Record<string, string>
+    ): Promise<T> {
+        const { language, region } = this.locale;
+        const localized = !UNLOCALIZED_ENDPOINTS.some((pattern) => pattern.test(endpoint));
+        const localeParams: Record<string, string> = {};
+        if (language && localized) localeParams.language = language;
+        if (region) localeParams.region = region;
 
-        // Add query parameters
-        if (params) {
-            Object.entries(params).forEach(([key, value]) => {
-                url.searchParams.append(key, value);
-            });
+        const data = await this.request(endpoint, schema, { ...localeParams, ...params });
+
+        const translated = localeParams.language && !localeParams.language.startsWith("en");
+        if (!translated || typeof data !== "object" || data === null) {
+            return data;
+        }
+        if (!hasMissingOverview(data as OverviewRecord)) {
+            return data;
         }
 
-        const response = await fetch(url.toString(), {
-            method: "GET",
-            headers: {
-                Authorization: `Bearer ${this.token}`,
-                "Content-Type": "application/json",
-            },
+        const fallback = await this.request(endpoint, schema, {
+            ...localeParams,
+            ...params,
+            language: FALLBACK_LANGUAGE,
         });
+        return fillMissingOverviews(data as OverviewRecord, fallback as OverviewRecord) as T;
+    }
 
-        if (!response.ok) {
-            const error: TMDBError = await response.json();
-            throw new Error(`TMDB API Error: ${error.status_message}`);
+    /**
+     * Send a GET request and validate the response, serving it from the cache when a fresh entry exists
+     */
+    private async request<T>(
+        endpoint: string,
+        schema: z.ZodType<T>,
+        params: Record<string, string>
+    ): Promise<T> {
+        const cacheKey = getCacheKey(endpoint, params);
+        const cached = this.cache.get(cacheKey);
+        if (cached !== undefined) {
+            return cached as T;
         }
 
-        return response.json();
+        const url = new URL(`${this.baseURL}${endpoint}`);
+
+        // Add query parameters
+        Object.entries(params).forEach(([key, value]) => {
+            url.searchParams.append(key, value);
+        });
+
+        const response = await this.fetchWithRetry(url.toString());
+        const result = schema.safeParse(await parseResponseBody(response, url.toString()));
+        if (!result.success) {
+            const message = `Unexpected TMDB response from ${endpoint}: ${describeValidationError(result.error)}`;
+            console.error(`[TMDB] ${message}`);
+            throw new Error(message);
+        }
+
+        this.cache.set(cacheKey, result.data, getCacheTTL(endpoint));
+        return result.data;
+    }
+
+    /**
+     * Fetch a URL, retrying rate-limited, gateway and network failures with backoff
+     */
+    private async fetchWithRetry(url: string): Promise<Response> {
+        for (let attempt = 1; ; attempt++) {
+            await this.rateLimiter.acquire();
+
+            let response: Response;
+            try {
+                response = await this.fetch(url, {
+                    method: "GET",
+                    headers: {
+                        Authorization: `Bearer ${this.token}`,
+                        "Content-Type": "application/json",
+                    },
+                });
+            } catch (error) {
+                if (attempt >= this.maxAttempts) {
+                    const message = error instanceof Error ? error.message : String(error);
+                    throw new Error(`TMDB API request failed: ${message}`);
+                }
+                await sleep(getBackoffDelay(attempt));
+                continue;
+            }
+
+            if (response.ok) {
+                return response;
+            }
+
+            if (RETRYABLE_STATUSES.has(response.status) && attempt < this.maxAttempts) {
+                const delay =
+                    parseRetryAfter(response.headers.get("retry-after")) ??
+                    getBackoffDelay(attempt);
+                console.error(
+                    `[TMDB] ${response.status} received, retrying in ${delay}ms (attempt ${attempt + 1}/${this.maxAttempts})`
+                );
+                // Drain the body so the connection can be reused
+                await response.body?.cancel().catch(() => undefined);
+                await sleep(delay);
+                continue;
+            }
+
+            throw new Error(await describeErrorResponse(response, url));
+        }
     }
 
     /**
      * Search for movies
      */
     async searchMovies(query: string, page: number = 1): Promise<TMDBSearchResponse<TMDBMovie>> {
-        return this.get<TMDBSearchResponse<TMDBMovie>>("/search/movie", {
+        return this.get("/search/movie", searchResponseSchema(TMDBMovieSchema), {
             query,
             page: String(page),
         });
@@ -64,16 +498,24 @@ export class TMDBClient {
 
     /**
      * Get movie details by ID
+     * Pass append to fetch sub-resources (credits, videos, ...) in the same request
      */
-    async getMovieDetails(movieId: number): Promise<TMDBMovieDetails> {
-        return this.get<TMDBMovieDetails>(`/movie/${movieId}`);
+    async getMovieDetails(
+        movieId: number,
+        append: TMDBMovieAppend[] = []
+    ): Promise<TMDBMovieDetailsWithAppends> {
+        return this.get(
+            `/movie/${movieId}`,
+            TMDBMovieDetailsWithAppendsSchema,
+            this.appendParams(append)
+        );
     }
 
     /**
      * Search for TV shows
      */
     async searchTVShows(query: string, page: number = 1): Promise<TMDBSearchResponse<TMDBTVShow>> {
-        return this.get<TMDBSearchResponse<TMDBTVShow>>("/search/tv", {
+        return this.get("/search/tv", searchResponseSchema(TMDBTVShowSchema), {
             query,
             page: String(page),
         });
@@ -81,9 +523,38 @@ export class TMDBClient {
 
     /**
      * Get TV show details by ID
+     * Pass append to fetch sub-resources (credits, videos, ...) in the same request
+     */
+    async getTVShowDetails(
+        tvId: number,
+        append: TMDBTVShowAppend[] = []
+    ): Promise<TMDBTVShowDetailsWithAppends> {
+        return this.get(
+            `/tv/${tvId}`,
+            TMDBTVShowDetailsWithAppendsSchema,
+            this.appendParams(append)
+        );
+    }
+
+    /**
+     * Get TV season details, including its episodes
      */
-    async getTVShowDetails(tvId: number): Promise<TMDBTVShowDetails> {
-        return this.get<TMDBTVShowDetails>(`/tv/${tvId}`);
+    async getTVSeasonDetails(tvId: number, seasonNumber: number): Promise<TMDBTVSeasonDetails> {
+        return this.get(`/tv/${tvId}/season/${seasonNumber}`, TMDBTVSeasonDetailsSchema);
+    }
+
+    /**
+     * Get TV episode details, including guest stars and crew
+     */
+    async getTVEpisodeDetails(
+        tvId: number,
+        seasonNumber: number,
+        episodeNumber: number
+    ): Promise<TMDBTVEpisode> {
+        return this.get(
+            `/tv/${tvId}/season/${seasonNumber}/episode/${episodeNumber}`,
+            TMDBTVEpisodeSchema
+        );
     }
 
     /**
@@ -91,6 +562,10 @@ export class TMDBClient {
      */
     async discoverMovies(params: {
         with_genres?: string;
+        without_genres?: string;
+        with_keywords?: string;
+        without_keywords?: string;
+        with_companies?: string;
         with_original_language?: string;
         "primary_release_date.gte"?: string;
         "primary_release_date.lte"?: string;
@@ -103,6 +578,10 @@ export class TMDBClient {
         const queryParams: Record<string, string> = {};
 
         if (params.with_genres) queryParams.with_genres = params.with_genres;
+        if (params.without_genres) queryParams.without_genres = params.without_genres;
+        if (params.with_keywords) queryParams.with_keywords = params.with_keywords;
+        if (params.without_keywords) queryParams.without_keywords = params.without_keywords;
+        if (params.with_companies) queryParams.with_companies = params.with_companies;
         if (params.with_original_language)
             queryParams.with_original_language = params.with_original_language;
         if (params["primary_release_date.gte"])
@@ -118,7 +597,7 @@ export class TMDBClient {
         if (params.sort_by) queryParams.sort_by = params.sort_by;
         if (params.page) queryParams.page = String(params.page);
 
-        return this.get<TMDBSearchResponse<TMDBMovie>>("/discover/movie", queryParams);
+        return this.get("/discover/movie", searchResponseSchema(TMDBMovieSchema), queryParams);
     }
 
     /**
@@ -128,8 +607,42 @@ export class TMDBClient {
         movieId: number,
         page: number = 1
     ): Promise<TMDBSearchResponse<TMDBMovie>> {
-        return this.get<TMDBSearchResponse<TMDBMovie>>(`/movie/${movieId}/recommendations`, {
+        return this.get(
+            `/movie/${movieId}/recommendations`,
+            searchResponseSchema(TMDBMovieSchema),
+            {
+                page: String(page),
+            }
+        );
+    }
+
+    /**
+     * Get a curated movie list; now playing and upcoming include their release date window
+     * Pass region to get theatrical releases for a country instead of the default region
+     */
+    async getMovieList(
+        list: "now_playing" | "upcoming" | "popular" | "top_rated",
+        page: number = 1,
+        region?: string
+    ): Promise<TMDBDatedListResponse<TMDBMovie>> {
+        return this.get(`/movie/${list}`, datedListResponseSchema(TMDBMovieSchema), {
             page: String(page),
+            ...(region ? { region } : {}),
+        });
+    }
+
+    /**
+     * Get a curated TV list
+     * timezone (IANA, e.g. "Europe/London") decides which days the airing lists cover
+     */
+    async getTVList(
+        list: "airing_today" | "on_the_air" | "popular" | "top_rated",
+        page: number = 1,
+        timezone?: string
+    ): Promise<TMDBSearchResponse<TMDBTVShow>> {
+        return this.get(`/tv/${list}`, searchResponseSchema(TMDBTVShowSchema), {
+            page: String(page),
+            ...(timezone ? { timezone } : {}),
         });
     }
 
@@ -140,17 +653,34 @@ export class TMDBClient {
         mediaType: "all" | "movie" | "tv" | "person",
         timeWindow: "day" | "week",
         page: number = 1
-    ): Promise<TMDBSearchResponse<any>> {
-        return this.get<TMDBSearchResponse<any>>(`/trending/${mediaType}/${timeWindow}`, {
+    ): Promise<TMDBSearchResponse<TMDBTrendingItem>> {
+        return this.get(
+            `/trending/${mediaType}/${timeWindow}`,
+            searchResponseSchema(TMDBTrendingItemSchema),
+            {
+                page: String(page),
+            }
+        );
+    }
+
+    /**
+     * Search for people by name
+     */
+    async searchPeople(query: string, page: number = 1): Promise<TMDBSearchResponse<TMDBPerson>> {
+        return this.get("/search/person", searchResponseSchema(TMDBPersonSchema), {
+            query,
             page: String(page),
         });
     }
 
     /**
-     * Search for people by name
+     * Search movies, TV shows and people in a single request
      */
-    async searchPeople(query: string, page: number = 1): Promise<TMDBSearchResponse<any>> {
-        return this.get<TMDBSearchResponse<any>>("/search/person", {
+    async searchMulti(
+        query: string,
+        page: number = 1
+    ): Promise<TMDBSearchResponse<TMDBMultiSearchResult>> {
+        return this.get("/search/multi", searchResponseSchema(TMDBMultiSearchResultSchema), {
             query,
             page: String(page),
         });
@@ -159,15 +689,36 @@ export class TMDBClient {
     /**
      * Get cast and crew for a movie
      */
-    async getMovieCredits(movieId: number): Promise<any> {
-        return this.get<any>(`/movie/${movieId}/credits`);
+    async getMovieCredits(movieId: number): Promise<TMDBCreditsResponse> {
+        return this.get(`/movie/${movieId}/credits`, TMDBCreditsResponseSchema);
     }
 
     /**
      * Get person details by ID
+     * Pass append to fetch sub-resources (credits, images, external IDs) in the same request
      */
-    async getPersonDetails(personId: number): Promise<any> {
-        return this.get<any>(`/person/${personId}`);
+    async getPersonDetails(
+        personId: number,
+        append: TMDBPersonAppend[] = []
+    ): Promise<TMDBPersonDetailsWithAppends> {
+        return this.get(
+            `/person/${personId}`,
+            TMDBPersonDetailsWithAppendsSchema,
+            this.appendParams(append)
+        );
+    }
+
+    /**
+     * Get a person's movie, TV or combined (movie + TV) credits
+     */
+    async getPersonCredits(
+        personId: number,
+        creditSet: "combined" | "movie" | "tv" = "combined"
+    ): Promise<TMDBPersonCreditsResponse> {
+        return this.get(
+            `/person/${personId}/${creditSet}_credits`,
+            TMDBPersonCreditsResponseSchema
+        );
     }
 
     /**
@@ -175,6 +726,11 @@ export class TMDBClient {
      */
     async discoverTVShows(params: {
         with_genres?: string;
+        without_genres?: string;
+        with_keywords?: string;
+        without_keywords?: string;
+        with_companies?: string;
+        with_networks?: string;
         with_original_language?: string;
         first_air_date_year?: number;
         "vote_average.gte"?: number;
@@ -185,6 +741,11 @@ export class TMDBClient {
         const queryParams: Record<string, string> = {};
 
         if (params.with_genres) queryParams.with_genres = params.with_genres;
+        if (params.without_genres) queryParams.without_genres = params.without_genres;
+        if (params.with_keywords) queryParams.with_keywords = params.with_keywords;
+        if (params.without_keywords) queryParams.without_keywords = params.without_keywords;
+        if (params.with_companies) queryParams.with_companies = params.with_companies;
+        if (params.with_networks) queryParams.with_networks = params.with_networks;
         if (params.with_original_language)
             queryParams.with_original_language = params.with_original_language;
         if (params.first_air_date_year)
@@ -196,7 +757,7 @@ export class TMDBClient {
         if (params.sort_by) queryParams.sort_by = params.sort_by;
         if (params.page) queryParams.page = String(params.page);
 
-        return this.get<TMDBSearchResponse<TMDBTVShow>>("/discover/tv", queryParams);
+        return this.get("/discover/tv", searchResponseSchema(TMDBTVShowSchema), queryParams);
     }
 
     /**
@@ -206,7 +767,7 @@ export class TMDBClient {
         tvId: number,
         page: number = 1
     ): Promise<TMDBSearchResponse<TMDBTVShow>> {
-        return this.get<TMDBSearchResponse<TMDBTVShow>>(`/tv/${tvId}/recommendations`, {
+        return this.get(`/tv/${tvId}/recommendations`, searchResponseSchema(TMDBTVShowSchema), {
             page: String(page),
         });
     }
@@ -214,7 +775,253 @@ export class TMDBClient {
     /**
      * Get cast and crew for a TV show
      */
-    async getTVShowCredits(tvId: number): Promise<any> {
-        return this.get<any>(`/tv/${tvId}/credits`);
+    async getTVShowCredits(tvId: number): Promise<TMDBCreditsResponse> {
+        return this.get(`/tv/${tvId}/credits`, TMDBCreditsResponseSchema);
+    }
+
+    /**
+     * Get where a movie or TV show can be watched, per region
+     */
+    async getWatchProviders(
+        mediaType: "movie" | "tv",
+        id: number
+    ): Promise<TMDBWatchProvidersResponse> {
+        return this.get(`/${mediaType}/${id}/watch/providers`, TMDBWatchProvidersResponseSchema);
+    }
+
+    /**
+     * List all watch providers for movies or TV in a region
+     */
+    async getAvailableWatchProviders(
+        mediaType: "movie" | "tv",
+        region: string
+    ): Promise<TMDBWatchProviderListResponse> {
+        return this.get(`/watch/providers/${mediaType}`, TMDBWatchProviderListResponseSchema, {
+            watch_region: region,
+        });
+    }
+
+    /**
+     * Get API configuration, including the image base URL and allowed sizes
+     */
+    async getConfiguration(): Promise<TMDBConfiguration> {
+        return this.get("/configuration", TMDBConfigurationSchema);
+    }
+
+    /**
+     * Get images for a movie, TV show or person
+     * Pass languages (ISO 639-1, "null" for images without text) to filter by language
+     */
+    async getImages(
+        mediaType: "movie" | "tv" | "person",
+        id: number,
+        languages?: string[]
+    ): Promise<TMDBImagesResponse> {
+        return this.get(
+            `/${mediaType}/${id}/images`,
+            TMDBImagesResponseSchema,
+            imageLanguageParams(languages)
+        );
+    }
+
+    /**
+     * Get posters for a TV season
+     */
+    async getTVSeasonImages(
+        tvId: number,
+        seasonNumber: number,
+        languages?: string[]
+    ): Promise<TMDBImagesResponse> {
+        return this.get(
+            `/tv/${tvId}/season/${seasonNumber}/images`,
+            TMDBImagesResponseSchema,
+            imageLanguageParams(languages)
+        );
+    }
+
+    /**
+     * Get stills for a TV episode
+     */
+    async getTVEpisodeImages(
+        tvId: number,
+        seasonNumber: number,
+        episodeNumber: number,
+        languages?: string[]
+    ): Promise<TMDBImagesResponse> {
+        return this.get(
+            `/tv/${tvId}/season/${seasonNumber}/episode/${episodeNumber}/images`,
+            TMDBImagesResponseSchema,
+            imageLanguageParams(languages)
+        );
+    }
+
+    /**
+     * Get videos for a movie or TV show, or a TV season when seasonNumber is given
+     * Pass languages (ISO 639-1, "null" for videos without a language) to include
+     */
+    async getVideos(
+        mediaType: "movie" | "tv",
+        id: number,
+        seasonNumber?: number,
+        languages?: string[]
+    ): Promise<TMDBVideosResponse> {
+        const endpoint =
+            seasonNumber === undefined
+                ? `/${mediaType}/${id}/videos`
+                : `/tv/${id}/season/${seasonNumber}/videos`;
+
+        return this.get(
+            endpoint,
+            TMDBVideosResponseSchema,
+            languages?.length ? { include_video_language: languages.join(",") } : undefined
+        );
+    }
+
+    /**
+     * Get user reviews for a movie or TV show
+     */
+    async getReviews(
+        mediaType: "movie" | "tv",
+        id: number,
+        page: number = 1
+    ): Promise<TMDBSearchResponse<TMDBReview>> {
+        return this.get(`/${mediaType}/${id}/reviews`, searchResponseSchema(TMDBReviewSchema), {
+            page: String(page),
+        });
+    }
+
+    /**
+     * Search for keywords by name
+     */
+    async searchKeywords(
+        query: string,
+        page: number = 1
+    ): Promise<TMDBSearchResponse<TMDBKeyword>> {
+        return this.get("/search/keyword", searchResponseSchema(TMDBKeywordSchema), {
+            query,
+            page: String(page),
+        });
+    }
+
+    /**
+     * Get keywords for a movie or TV show
+     */
+    async getKeywords(mediaType: "movie" | "tv", id: number): Promise<TMDBKeywordsResponse> {
+        return this.get(`/${mediaType}/${id}/keywords`, TMDBKeywordsResponseSchema);
+    }
+
+    /**
+     * Search for collections (franchises) by name
+     */
+    async searchCollections(
+        query: string,
+        page: number = 1
+    ): Promise<TMDBSearchResponse<TMDBCollectionSearchResult>> {
+        return this.get(
+            "/search/collection",
+            searchResponseSchema(TMDBCollectionSearchResultSchema),
+            {
+                query,
+                page: String(page),
+            }
+        );
+    }
+
+    /**
+     * Get collection details, including every movie in it
+     */
+    async getCollection(collectionId: number): Promise<TMDBCollectionDetails> {
+        return this.get(`/collection/${collectionId}`, TMDBCollectionDetailsSchema);
+    }
+
+    /**
+     * Get movie release dates and certifications by country
+     */
+    async getMovieReleaseDates(movieId: number): Promise<TMDBReleaseDatesResponse> {
+        return this.get(`/movie/${movieId}/release_dates`, TMDBReleaseDatesResponseSchema);
+    }
+
+    /**
+     * Get TV show content ratings by country
+     */
+    async getTVContentRatings(tvId: number): Promise<TMDBContentRatingsResponse> {
+        return this.get(`/tv/${tvId}/content_ratings`, TMDBContentRatingsResponseSchema);
+    }
+
+    /**
+     * Get the certification (age rating) systems for movies or TV, by country
+     */
+    async getCertifications(mediaType: "movie" | "tv"): Promise<TMDBCertificationsResponse> {
+        return this.get(`/certification/${mediaType}/list`, TMDBCertificationsResponseSchema);
+    }
+
+    /**
+     * Get the official genre list for movies or TV
+     */
+    async getGenres(mediaType: "movie" | "tv"): Promise<TMDBGenreListResponse> {
+        return this.get(`/genre/${mediaType}/list`, TMDBGenreListResponseSchema);
+    }
+
+    /**
+     * Find movies, TV shows, seasons, episodes and people by an external ID (e.g. an IMDb ID)
+     */
+    async findByExternalId(
+        externalId: string,
+        source: TMDBExternalSource
+    ): Promise<TMDBFindResponse> {
+        return this.get(`/find/${encodeURIComponent(externalId)}`, TMDBFindResponseSchema, {
+            external_source: source,
+        });
+    }
+
+    /**
+     * Get the external IDs (IMDb, TVDB, Wikidata, social) of a movie, TV show or person
+     */
+    async getExternalIds(
+        mediaType: "movie" | "tv" | "person",
+        id: number
+    ): Promise<TMDBExternalIds> {
+        return this.get(`/${mediaType}/${id}/external_ids`, TMDBExternalIdsSchema);
+    }
+
+    /**
+     * Get the external IDs of a TV episode
+     */
+    async getTVEpisodeExternalIds(
+        tvId: number,
+        seasonNumber: number,
+        episodeNumber: number
+    ): Promise<TMDBExternalIds> {
+        return this.get(
+            `/tv/${tvId}/season/${seasonNumber}/episode/${episodeNumber}/external_ids`,
+            TMDBExternalIdsSchema
+        );
+    }
+
+    /**
+     * Search for production companies by name
+     */
+    async searchCompanies(
+        query: string,
+        page: number = 1
+    ): Promise<TMDBSearchResponse<TMDBCompany>> {
+        return this.get("/search/company", searchResponseSchema(TMDBCompanySchema), {
+            query,
+            page: String(page),
+        });
+    }
+
+    /**
+     * Get production company details by ID
+     */
+    async getCompanyDetails(companyId: number): Promise<TMDBCompanyDetails> {
+        return this.get(`/company/${companyId}`, TMDBCompanyDetailsSchema);
+    }
+
+    /**
+     * Get TV network details by ID
+     */
+    async getNetworkDetails(networkId: number): Promise<TMDBNetworkDetails> {
+        return this.get(`/network/${networkId}`, TMDBNetworkDetailsSchema);
     }
 }
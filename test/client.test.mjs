@@ -0,0 +1,454 @@
+/**
+ * Client tests
+ * Run TMDBClient against a scripted fetch to check the requests it sends and the values it
+ * returns: caching, retries, rate limiting, locale fallbacks, genre translation and recording.
+ * Response bodies come from the fixtures in test/fixtures. Run with `npm test`, which builds first.
+ */
+
+import assert from "node:assert/strict";
+import { readdirSync, readFileSync } from "node:fs";
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { test } from "node:test";
+import { fileURLToPath } from "node:url";
+import { resolveGenreFilter } from "../build/tools/genres.js";
+import { toolRegistry } from "../build/tools/index.js";
+import { resolveKeywordFilter } from "../build/tools/keywords.js";
+import { createRecordingFetch, createReplayFetch } from "../build/utils/http.js";
+import { TokenBucket } from "../build/utils/rate-limiter.js";
+import { DEFAULT_BASE_URL, TMDBClient } from "../build/utils/tmdb-client.js";
+
+const FIXTURES_DIR = fileURLToPath(new URL("./fixtures", import.meta.url));
+
+// Fixture response bodies by request path, e.g. "/collection/2344"
+const FIXTURE_BODIES = new Map(
+    readdirSync(FIXTURES_DIR).map((file) => {
+        const fixture = JSON.parse(readFileSync(path.join(FIXTURES_DIR, file), "utf-8"));
+        return [fixture.request.path, JSON.parse(fixture.response.body)];
+    })
+);
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Get the fixture response body for a request path
+ */
+function fixtureBody(requestPath) {
+    const body = FIXTURE_BODIES.get(requestPath);
+    assert.ok(body, `No fixture for ${requestPath}`);
+    return structuredClone(body);
+}
+
+/**
+ * Fixture path of a request: the path below the base URL plus its query params sorted by name,
+ * leaving out the locale params
+ */
+function fixturePath(url) {
+    const query = [...url.searchParams.entries()]
+        .filter(([key]) => key !== "language" && key !== "region")
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, value]) => `${key}=${value}`)
+        .join("&");
+
+    return `${url.pathname.replace(/^\/3/, "")}${query ? `?${query}` : ""}`;
+}
+
+/**
+ * Create a fetch that answers with respond(url), which returns { status, body, headers }
+ * Every requested URL is kept in `requests`
+ */
+function createScriptedFetch(respond) {
+    const requests = [];
+    const scriptedFetch = async (url) => {
+        const requestURL = new URL(url);
+        requests.push(requestURL);
+
+        const {
+            status = 200,
+            body = {},
+            headers = {},
+        } = await respond(requestURL, requests.length);
+        return new Response(typeof body === "string" ? body : JSON.stringify(body), {
+            status,
+            headers: { "content-type": "application/json", ...headers },
+        });
+    };
+
+    return { fetch: scriptedFetch, requests };
+}
+
+/**
+ * Create a fetch that serves the fixture for each request
+ */
+function createFixtureFetch() {
+    return createScriptedFetch((url) => ({ body: fixtureBody(fixturePath(url)) }));
+}
+
+/**
+ * Create a client using the given fetch
+ */
+function createClient(fetch, options = {}) {
+    return new TMDBClient("test-token", { fetch, ...options });
+}
+
+/**
+ * Request paths below the base URL, e.g. "/collection/2344"
+ */
+function requestPaths(requests) {
+    return requests.map((url) => url.pathname.replace(/^\/3/, ""));
+}
+
+test("repeated requests are served from the cache", async () => {
+    const { fetch, requests } = createFixtureFetch();
+    const client = createClient(fetch);
+
+    const first = await client.getCollection(2344);
+    const second = await client.getCollection(2344);
+
+    assert.equal(requests.length, 1);
+    assert.equal(requests[0].href, "https://api.themoviedb.org/3/collection/2344");
+    assert.equal(first.name, "The Matrix Collection");
+    assert.deepEqual(second, first);
+    assert.deepEqual(client.getCacheStats(), {
+        enabled: true,
+        size: 1,
+        max_entries: 500,
+        hits: 1,
+        misses: 1,
+        evictions: 0,
+        hit_rate: 0.5,
+    });
+});
+
+test("the least recently used response is evicted when the cache is full", async () => {
+    const { fetch, requests } = createFixtureFetch();
+    const client = createClient(fetch, { cacheSize: 2 });
+
+    await client.getCollection(2344);
+    await client.getCompanyDetails(41077);
+    await client.getCollection(2344);
+    // Evicts the company, used less recently than the collection
+    await client.getNetworkDetails(174);
+    await client.getCollection(2344);
+    await client.getCompanyDetails(41077);
+
+    assert.deepEqual(requestPaths(requests), [
+        "/collection/2344",
+        "/company/41077",
+        "/network/174",
+        "/company/41077",
+    ]);
+    assert.equal(client.getCacheStats().evictions, 2);
+});
+
+test("cached responses expire after their endpoint's TTL", async (t) => {
+    let now = Date.now();
+    t.mock.method(Date, "now", () => now);
+    const { fetch, requests } = createFixtureFetch();
+    const client = createClient(fetch);
+
+    const fetchBoth = async () => {
+        await client.getTrending("all", "week");
+        await client.getCollection(2344);
+    };
+
+    await fetchBoth();
+    // Trending lists are kept for 10 minutes, collections for a day
+    now += HOUR;
+    await fetchBoth();
+    now += 24 * HOUR;
+    await fetchBoth();
+
+    assert.deepEqual(requestPaths(requests), [
+        "/trending/all/week",
+        "/collection/2344",
+        "/trending/all/week",
+        "/trending/all/week",
+        "/collection/2344",
+    ]);
+});
+
+test("a cache size of 0 disables the cache", async () => {
+    const { fetch, requests } = createFixtureFetch();
+    const client = createClient(fetch, { cacheSize: 0 });
+
+    await client.getCollection(2344);
+    await client.getCollection(2344);
+
+    assert.equal(requests.length, 2);
+    assert.equal(client.getCacheStats().enabled, false);
+});
+
+test("429 responses are retried after the Retry-After delay", async (t) => {
+    t.mock.method(console, "error", () => undefined);
+    const { fetch, requests } = createScriptedFetch((url, attempt) =>
+        attempt === 1
+            ? {
+                  status: 429,
+                  body: { status_message: "Too many requests" },
+                  headers: { "retry-after": "0" },
+              }
+            : { body: fixtureBody("/company/41077") }
+    );
+    const client = createClient(fetch);
+
+    const company = await client.getCompanyDetails(41077);
+
+    assert.equal(requests.length, 2);
+    assert.equal(company.name, "A24");
+});
+
+test("5xx responses and network errors are retried until maxAttempts", async (t) => {
+    t.mock.method(console, "error", () => undefined);
+    // No backoff delay
+    t.mock.method(Math, "random", () => 0);
+    const { fetch, requests } = createScriptedFetch((url, attempt) => {
+        if (attempt === 1) throw new TypeError("fetch failed");
+        return { status: 503, body: { status_message: "Service unavailable" } };
+    });
+    const client = createClient(fetch, { maxAttempts: 3 });
+
+    await assert.rejects(client.getCompanyDetails(41077), {
+        message: "TMDB API Error (503): Service unavailable",
+    });
+    assert.equal(requests.length, 3);
+});
+
+test("client errors are not retried", async () => {
+    const { fetch, requests } = createScriptedFetch(() => ({
+        status: 404,
+        body: { status_message: "The resource you requested could not be found." },
+    }));
+    const client = createClient(fetch);
+
+    await assert.rejects(client.getCompanyDetails(1), {
+        message: "TMDB API Error (404): The resource you requested could not be found.",
+    });
+    assert.equal(requests.length, 1);
+});
+
+test("successful responses that aren't JSON fail with the start of the body", async () => {
+    const { fetch } = createScriptedFetch(() => ({
+        body: "<html>\n  <body>Sign in to the network</body>\n</html>",
+    }));
+    const client = createClient(fetch);
+
+    await assert.rejects(client.getCompanyDetails(41077), {
+        message:
+            "TMDB API Error (200): Response from https://api.themoviedb.org/3/company/41077 is not JSON: <html> <body>Sign in to the network</body> </html>",
+    });
+});
+
+test("the token bucket delays requests beyond its capacity", async () => {
+    const bucket = new TokenBucket(20, 1);
+    const start = performance.now();
+
+    await bucket.acquire();
+    await bucket.acquire();
+    await bucket.acquire();
+
+    // Two refills of 50ms each
+    assert.ok(performance.now() - start >= 95, "requests were not delayed");
+    assert.throws(() => new TokenBucket(0), /must be positive/);
+});
+
+test("empty translated overviews are filled from an English request", async () => {
+    const { fetch, requests } = createScriptedFetch((url) => {
+        const body = fixtureBody("/collection/2344");
+        if (url.searchParams.get("language") === "de-DE") {
+            body.name = "Matrix Filmreihe";
+            body.overview = "";
+            body.parts[0].overview = "";
+            body.parts[1].overview = "Neos Kampf geht weiter.";
+        }
+        return { body };
+    });
+    const client = createClient(fetch, { language: "de-DE" });
+
+    const collection = await client.getCollection(2344);
+    const english = fixtureBody("/collection/2344");
+
+    assert.deepEqual(
+        requests.map((url) => url.searchParams.get("language")),
+        ["de-DE", "en-US"]
+    );
+    assert.equal(collection.name, "Matrix Filmreihe");
+    assert.equal(collection.overview, english.overview);
+    assert.equal(collection.parts[0].overview, english.parts[0].overview);
+    assert.equal(collection.parts[1].overview, "Neos Kampf geht weiter.");
+});
+
+test("English responses with empty overviews are not requested again", async () => {
+    const { fetch, requests } = createScriptedFetch(() => ({
+        body: { ...fixtureBody("/collection/2344"), overview: "" },
+    }));
+    const client = createClient(fetch, { language: "en-GB" });
+
+    const collection = await client.getCollection(2344);
+
+    assert.equal(requests.length, 1);
+    assert.equal(collection.overview, "");
+});
+
+test("reviews are requested without a language, keeping the region", async () => {
+    const { fetch, requests } = createScriptedFetch(() => ({
+        body: fixtureBody("/movie/603/reviews?page=1"),
+    }));
+    const client = createClient(fetch, { language: "de-DE", region: "DE" });
+
+    await client.getReviews("movie", 603);
+
+    assert.equal(requests[0].search, "?region=DE&page=1");
+});
+
+test("airing TV lists are requested in the given timezone", async () => {
+    const { fetch, requests } = createScriptedFetch((url) => ({
+        body: fixtureBody(
+            url.pathname.startsWith("/3/tv/") ? "/tv/top_rated?page=1" : fixturePath(url)
+        ),
+    }));
+    const client = createClient(fetch);
+
+    await toolRegistry.call(
+        "get_tv_list",
+        { list: "airing_today", timezone: "Asia/Tokyo" },
+        client
+    );
+    await toolRegistry.call("get_tv_list", { list: "top_rated" }, client);
+
+    const [airingToday, topRated] = requests.filter((url) => url.pathname.startsWith("/3/tv/"));
+    assert.equal(airingToday.search, "?page=1&timezone=Asia%2FTokyo");
+    assert.equal(topRated.search, "?page=1");
+});
+
+test("movie genres are translated to their TV equivalents", async () => {
+    const { fetch, requests } = createFixtureFetch();
+    const client = createClient(fetch);
+
+    const filter = await resolveGenreFilter("Science Fiction,Action,Adventure", "tv", client);
+
+    assert.deepEqual(filter, {
+        ids: "10765,10759",
+        genres: [
+            { id: 10765, name: "Sci-Fi & Fantasy" },
+            { id: 10759, name: "Action & Adventure" },
+        ],
+    });
+    assert.deepEqual(requestPaths(requests).sort(), ["/genre/movie/list", "/genre/tv/list"]);
+});
+
+test("discover requests use the translated genre IDs", async () => {
+    const { fetch, requests } = createScriptedFetch((url) => ({
+        body: url.pathname.startsWith("/3/discover/")
+            ? fixtureBody(
+                  "/discover/tv?page=1&sort_by=popularity.desc&with_genres=18&with_networks=174"
+              )
+            : fixtureBody(fixturePath(url)),
+    }));
+    const client = createClient(fetch);
+
+    await toolRegistry.call("discover_tv_shows", { with_genres: "Science Fiction|Comedy" }, client);
+
+    const discover = requests.find((url) => url.pathname === "/3/discover/tv");
+    assert.equal(discover.searchParams.get("with_genres"), "10765|35");
+});
+
+test("genre names match in English and in the client's language", async () => {
+    const { fetch, requests } = createScriptedFetch((url) => {
+        const body = fixtureBody(fixturePath(url));
+        if (url.searchParams.get("language") === "de-DE") {
+            body.genres = body.genres.map((genre) =>
+                genre.id === 35 ? { ...genre, name: "Komödie" } : genre
+            );
+        }
+        return { body };
+    });
+    const client = createClient(fetch, { language: "de-DE" });
+
+    const filter = await resolveGenreFilter("Komödie|Comedy|Thriller", "movie", client);
+
+    assert.deepEqual(filter, {
+        ids: "35|53",
+        genres: [
+            { id: 35, name: "Komödie" },
+            { id: 53, name: "Thriller" },
+        ],
+    });
+    assert.deepEqual(
+        new Set(requests.map((url) => url.searchParams.get("language"))),
+        new Set(["de-DE", "en-US"])
+    );
+    await assert.rejects(
+        resolveGenreFilter("Western", "movie", client),
+        /No movie genre found for "Western"/
+    );
+});
+
+test("keyword names without an exact match fail with the closest keywords", async () => {
+    const { fetch, requests } = createScriptedFetch(() => ({
+        body: {
+            page: 1,
+            total_pages: 1,
+            total_results: 2,
+            results: [
+                { id: 12190, name: "cyberpunk" },
+                { id: 310, name: "artificial intelligence" },
+            ],
+        },
+    }));
+    const client = createClient(fetch);
+
+    await assert.rejects(resolveKeywordFilter("cyber", client), {
+        message:
+            'No TMDB keyword named "cyber". Closest matches: cyberpunk (12190), artificial intelligence (310)',
+    });
+    assert.equal(requests[0].searchParams.get("query"), "cyber");
+    assert.deepEqual(await resolveKeywordFilter("Cyberpunk|310", client), {
+        ids: "12190|310",
+        keywords: [
+            { id: 12190, name: "cyberpunk" },
+            { id: 310, name: "310" },
+        ],
+    });
+});
+
+test("recorded responses replay against another base URL", async (t) => {
+    const fixturesDir = await mkdtemp(path.join(tmpdir(), "tmdb-fixtures-"));
+    t.after(() => rm(fixturesDir, { recursive: true, force: true }));
+
+    const { fetch, requests } = createFixtureFetch();
+    const recorder = createClient(createRecordingFetch(fixturesDir, DEFAULT_BASE_URL, fetch));
+    const recorded = await recorder.getCollection(2344);
+
+    const [file] = await readdir(fixturesDir);
+    assert.match(file, /^collection_2344-[0-9a-f]{10}\.json$/);
+    const fixture = JSON.parse(await readFile(path.join(fixturesDir, file), "utf-8"));
+    assert.deepEqual(fixture.request, { method: "GET", path: "/collection/2344" });
+    assert.equal(fixture.response.status, 200);
+
+    const proxyURL = "https://proxy.example/tmdb/3";
+    const replayer = createClient(createReplayFetch(fixturesDir, proxyURL), { baseURL: proxyURL });
+    assert.deepEqual(await replayer.getCollection(2344), recorded);
+    assert.equal(requests.length, 1);
+});
+
+test("transient failures are not recorded", async (t) => {
+    t.mock.method(console, "error", () => undefined);
+    const fixturesDir = await mkdtemp(path.join(tmpdir(), "tmdb-fixtures-"));
+    t.after(() => rm(fixturesDir, { recursive: true, force: true }));
+
+    const { fetch } = createScriptedFetch((url, attempt) =>
+        attempt === 1
+            ? { status: 503, body: "Service unavailable", headers: { "retry-after": "0" } }
+            : { body: fixtureBody("/network/174") }
+    );
+    const client = createClient(createRecordingFetch(fixturesDir, DEFAULT_BASE_URL, fetch));
+
+    await client.getNetworkDetails(174);
+
+    const files = await readdir(fixturesDir);
+    assert.equal(files.length, 1);
+    const fixture = JSON.parse(await readFile(path.join(fixturesDir, files[0]), "utf-8"));
+    assert.equal(fixture.response.status, 200);
+});
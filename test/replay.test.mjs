@@ -0,0 +1,385 @@
+/**
+ * Replay tests
+ * Calls every tool through the registry against the fixtures in test/fixtures and checks the
+ * values it returns, so tool handlers, response schemas and output schemas are tested without
+ * a TMDB token or network.
+ * Run with `npm test`, which builds first.
+ */
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { fileURLToPath } from "node:url";
+import { listResources, readResource } from "../build/resources/index.js";
+import { toolRegistry } from "../build/tools/index.js";
+import { createReplayFetch } from "../build/utils/http.js";
+import { DEFAULT_BASE_URL, TMDBClient } from "../build/utils/tmdb-client.js";
+
+const FIXTURES_DIR = fileURLToPath(new URL("./fixtures", import.meta.url));
+
+// One call per tool; each request it sends has a fixture
+const TOOL_CALLS = {
+    search_all: { query: "matrix" },
+    search_movies: { query: "matrix" },
+    get_movie_details: {
+        movie_id: 603,
+        include: [
+            "credits",
+            "videos",
+            "keywords",
+            "watch_providers",
+            "external_ids",
+            "release_dates",
+        ],
+    },
+    discover_movies: { with_genres: "Science Fiction", with_keywords: "cyberpunk", min_year: 1999 },
+    get_recommendations: { movie_id: 603 },
+    get_trending: { media_type: "all", time_window: "week" },
+    get_movie_credits: { movie_id: 603 },
+    search_tv_shows: { query: "breaking bad" },
+    get_tv_details: { tv_id: 1396, include: ["content_ratings"] },
+    discover_tv_shows: { with_genres: "Drama", with_networks: "AMC" },
+    get_tv_recommendations: { tv_id: 1396 },
+    get_tv_credits: { tv_id: 1396 },
+    get_tv_season: { tv_id: 1396, season_number: 1 },
+    get_tv_episode: { tv_id: 1396, season_number: 1, episode_number: 1 },
+    search_people: { query: "keanu reeves" },
+    get_person_details: { person_id: 6384, include: ["credits", "external_ids"] },
+    get_person_credits: { person_id: 6384 },
+    get_watch_providers: { media_type: "movie", id: 603 },
+    list_watch_providers: { media_type: "movie" },
+    get_images: { media_type: "movie", id: 603 },
+    get_videos: { media_type: "movie", id: 603 },
+    get_reviews: { media_type: "movie", id: 603 },
+    list_genres: { media_type: "movie" },
+    search_keywords: { query: "cyberpunk" },
+    get_keywords: { media_type: "movie", id: 603 },
+    search_collections: { query: "matrix" },
+    get_collection: { collection_id: 2344 },
+    get_release_info: { media_type: "movie", id: 603 },
+    list_certifications: { media_type: "movie" },
+    find_by_external_id: { external_id: "tt0133093" },
+    get_external_ids: { media_type: "movie", id: 603 },
+    search_companies: { query: "a24" },
+    get_company_details: { company_id: 41077 },
+    get_network_details: { network_id: 174 },
+    get_movie_list: { list: "now_playing" },
+    get_tv_list: { list: "top_rated" },
+};
+
+// Values each call's structured content must contain, checked with assertMatches
+const EXPECTED_RESULTS = {
+    search_all: {
+        total_results: 3,
+        media_type_counts: { movie: 2, tv: 0, person: 1 },
+        results: [{ media_type: "movie", id: 603, title: "The Matrix" }],
+    },
+    search_movies: {
+        total_results: 3,
+        results: [
+            {
+                id: 603,
+                title: "The Matrix",
+                release_date: "1999-03-31",
+                poster_path: "https://image.tmdb.org/t/p/w500/p96dm7sCMn4VYAStA6siNz30G1r.jpg",
+            },
+        ],
+    },
+    get_movie_details: {
+        id: 603,
+        title: "The Matrix",
+        runtime: 136,
+        collection: { id: 2344, name: "The Matrix Collection" },
+        credits: {
+            cast: [{ name: "Keanu Reeves", character: "Neo" }],
+            crew: [{ name: "Lana Wachowski", job: "Director" }],
+        },
+        videos: { best_trailer: { key: "vKQi3bBA1y8" } },
+        keywords: { length: 5 },
+        watch_providers: { region: "US", flatrate: [{ provider_name: "Max" }] },
+        external_ids: { external_ids: { imdb_id: "tt0133093" } },
+        release_dates: { country: "US", certification: "R" },
+    },
+    discover_movies: {
+        total_results: 2,
+        filters_applied: {
+            with_genres: [{ id: 878, name: "Science Fiction" }],
+            with_keywords: [{ id: 12190, name: "cyberpunk" }],
+            min_year: 1999,
+        },
+        results: [{ id: 603, title: "The Matrix" }],
+    },
+    get_recommendations: {
+        based_on_movie_id: 603,
+        recommendations: [{ id: 604, title: "The Matrix Reloaded" }],
+    },
+    get_trending: {
+        media_type: "all",
+        time_window: "week",
+        total_results: 3,
+        results: [{ id: 603, media_type: "movie", title: "The Matrix" }],
+    },
+    get_movie_credits: {
+        movie_id: 603,
+        cast: { length: 4, 0: { name: "Keanu Reeves", character: "Neo", order: 0 } },
+        crew: [{ name: "Lana Wachowski", job: "Director" }],
+    },
+    search_tv_shows: {
+        total_results: 1,
+        results: [{ id: 1396, name: "Breaking Bad", first_air_date: "2008-01-20" }],
+    },
+    get_tv_details: {
+        id: 1396,
+        name: "Breaking Bad",
+        number_of_seasons: 5,
+        number_of_episodes: 62,
+        networks: [{ id: 174, name: "AMC" }],
+        content_ratings: { country: "US", rating: "TV-MA" },
+    },
+    discover_tv_shows: {
+        filters_applied: {
+            with_genres: [{ id: 18, name: "Drama" }],
+            with_networks: [{ id: 174, name: "AMC" }],
+        },
+        results: [{ id: 1396, name: "Breaking Bad" }],
+    },
+    get_tv_recommendations: {
+        based_on_tv_id: 1396,
+        recommendations: [{ id: 60059, name: "Better Call Saul" }],
+    },
+    get_tv_credits: {
+        tv_id: 1396,
+        cast: [{ name: "Bryan Cranston", character: "Walter White" }],
+        crew: [{ name: "Vince Gilligan", job: "Executive Producer" }],
+    },
+    get_tv_season: {
+        tv_id: 1396,
+        season_number: 1,
+        episode_count: 2,
+        total_runtime: 108,
+        episodes: [{ id: 62085, name: "Pilot", guest_stars: [{ name: "John Koyama" }] }],
+    },
+    get_tv_episode: {
+        id: 62085,
+        name: "Pilot",
+        runtime: 59,
+        guest_stars: { length: 2, 0: { name: "John Koyama", character: "Emilio Koyama" } },
+    },
+    search_people: {
+        results: [
+            { id: 6384, name: "Keanu Reeves", known_for: [{ id: 603, title: "The Matrix" }] },
+        ],
+    },
+    get_person_details: {
+        id: 6384,
+        name: "Keanu Reeves",
+        birthday: "1964-09-02",
+        credits: { total_cast: 3, total_crew: 1 },
+        external_ids: { external_ids: { imdb_id: "nm0000206" } },
+    },
+    get_person_credits: {
+        person_id: 6384,
+        total_cast: 3,
+        cast: [{ title: "John Wick", characters: ["John Wick"] }],
+        crew: [{ title: "Man of Tai Chi", jobs: ["Director"] }],
+    },
+    get_watch_providers: {
+        media_type: "movie",
+        id: 603,
+        region: "US",
+        available: true,
+        flatrate: [{ provider_id: 1899, provider_name: "Max" }],
+        rent: { length: 2 },
+    },
+    list_watch_providers: {
+        region: "US",
+        total_results: 3,
+        providers: [{ provider_id: 8, provider_name: "Netflix" }],
+    },
+    get_images: {
+        id: 603,
+        posters: {
+            total: 2,
+            size: "w500",
+            images: [
+                {
+                    file_path: "/p96dm7sCMn4VYAStA6siNz30G1r.jpg",
+                    url: "https://image.tmdb.org/t/p/w500/p96dm7sCMn4VYAStA6siNz30G1r.jpg",
+                },
+            ],
+        },
+        backdrops: { total: 2 },
+        logos: { total: 1 },
+    },
+    get_videos: {
+        total_results: 3,
+        best_trailer: { key: "vKQi3bBA1y8", url: "https://www.youtube.com/watch?v=vKQi3bBA1y8" },
+    },
+    get_reviews: {
+        total_results: 1,
+        average_rating: 8,
+        reviews: [{ author: "Wuchak", rating: 8, truncated: false }],
+    },
+    list_genres: {
+        media_type: "movie",
+        genres: { length: 12, 0: { id: 28, name: "Action" } },
+    },
+    search_keywords: {
+        total_results: 2,
+        results: [{ id: 12190, name: "cyberpunk" }],
+    },
+    get_keywords: {
+        id: 603,
+        keywords: { length: 5, 0: { id: 4565, name: "dystopia" } },
+    },
+    search_collections: {
+        results: [{ id: 2344, name: "The Matrix Collection" }],
+    },
+    get_collection: {
+        id: 2344,
+        stats: { total_movies: 3, total_runtime: 403, total_revenue: 1630353531 },
+        parts: [{ order: 1, id: 603, title: "The Matrix" }],
+    },
+    get_release_info: {
+        id: 603,
+        countries: [
+            {
+                country: "GB",
+                certification: "15",
+                releases: [{ type: "theatrical", release_date: "1999-06-11" }],
+            },
+        ],
+    },
+    list_certifications: {
+        media_type: "movie",
+        countries: [{ country: "GB", certifications: [{ certification: "U" }] }],
+    },
+    find_by_external_id: {
+        external_source: "imdb_id",
+        total_results: 1,
+        movies: [{ id: 603, title: "The Matrix" }],
+        tv_shows: { length: 0 },
+    },
+    get_external_ids: {
+        id: 603,
+        external_ids: { imdb_id: "tt0133093", wikidata_id: "Q83495" },
+        links: { imdb: "https://www.imdb.com/title/tt0133093/" },
+    },
+    search_companies: {
+        results: [{ id: 41077, name: "A24", origin_country: "US" }],
+    },
+    get_company_details: {
+        id: 41077,
+        name: "A24",
+        headquarters: "New York City, New York, USA",
+        parent_company: null,
+    },
+    get_network_details: {
+        id: 174,
+        name: "AMC",
+        homepage: "https://www.amc.com",
+    },
+    get_movie_list: {
+        list: "now_playing",
+        results: [{ id: 78, title: "Blade Runner" }],
+        dates: { minimum: "2026-09-09", maximum: "2026-10-21" },
+    },
+    get_tv_list: {
+        list: "top_rated",
+        timezone: null,
+        dates: null,
+        results: [{ id: 1396, name: "Breaking Bad" }],
+    },
+};
+
+/**
+ * Assert that a value contains the expected values
+ * Objects match on the expected keys only, so arrays can be checked by index and length
+ */
+function assertMatches(actual, expected, path = "result") {
+    if (expected === null || typeof expected !== "object") {
+        assert.equal(actual, expected, path);
+        return;
+    }
+
+    assert.ok(actual !== null && typeof actual === "object", `${path} is not an object`);
+    for (const [key, value] of Object.entries(expected)) {
+        assertMatches(actual[key], value, `${path}.${key}`);
+    }
+}
+
+/**
+ * Create a client that serves responses from the fixtures
+ */
+function createReplayClient(baseURL = DEFAULT_BASE_URL) {
+    return new TMDBClient("replay", {
+        baseURL,
+        fetch: createReplayFetch(FIXTURES_DIR, baseURL),
+        maxAttempts: 1,
+    });
+}
+
+test("every tool has a replay call and expected result", () => {
+    const toolNames = toolRegistry.list().map((tool) => tool.name);
+    assert.deepEqual(Object.keys(TOOL_CALLS).sort(), toolNames.sort());
+    assert.deepEqual(Object.keys(EXPECTED_RESULTS).sort(), toolNames.sort());
+});
+
+for (const [name, args] of Object.entries(TOOL_CALLS)) {
+    test(name, async () => {
+        const { text, structuredContent } = await toolRegistry.call(
+            name,
+            args,
+            createReplayClient()
+        );
+
+        assertMatches(structuredContent, EXPECTED_RESULTS[name]);
+        assert.deepEqual(JSON.parse(text), JSON.parse(JSON.stringify(structuredContent)));
+    });
+}
+
+test("fixtures replay against a base URL with a path", async () => {
+    const { structuredContent } = await toolRegistry.call(
+        "get_movie_details",
+        TOOL_CALLS.get_movie_details,
+        createReplayClient("https://proxy.example/tmdb/3")
+    );
+
+    assert.equal(structuredContent.title, "The Matrix");
+});
+
+test("fields select properties of the text, keeping the full structured content", async () => {
+    const { text, structuredContent } = await toolRegistry.call(
+        "search_movies",
+        { ...TOOL_CALLS.search_movies, fields: ["total_results", "results.title"] },
+        createReplayClient()
+    );
+
+    assert.deepEqual(JSON.parse(text), {
+        total_results: 3,
+        results: [
+            { title: "The Matrix" },
+            { title: "The Matrix Reloaded" },
+            { title: "The Matrix Revolutions" },
+        ],
+    });
+    assert.equal(structuredContent.results[0].release_date, "1999-03-31");
+});
+
+test("requests without a fixture fail with the missing request", async () => {
+    await assert.rejects(
+        toolRegistry.call("get_movie_details", { movie_id: 1 }, createReplayClient()),
+        /No recorded fixture for GET \/movie\/1/
+    );
+});
+
+test("cache statistics are readable as a resource", async () => {
+    const client = createReplayClient();
+    const resources = await listResources(client);
+    assert.equal(resources[0].uri, "tmdb://server/cache");
+
+    const { contents } = await readResource("tmdb://server/cache", client);
+    const stats = JSON.parse(contents[0].text);
+    // Listing resources fetched the trending list once
+    assert.equal(stats.misses, 1);
+    assert.equal(stats.size, 1);
+});